@@ -0,0 +1,48 @@
+/**
+ * Helpers for discovering a FogBugz instance's API: every instance publishes
+ * api.xml at its root, giving the API version it speaks, the oldest version
+ * it still accepts, and where the API lives relative to the site. Which
+ * commands an instance supports isn't published, so that is left to probing.
+ */
+import { FogBugzApiInfo } from './types';
+
+/**
+ * The API version this client is written against
+ */
+export const API_VERSION = 8;
+
+/**
+ * Where the JSON API sits relative to the site root
+ */
+export const JSON_API_PATH = 'f/api/0/jsonapi';
+
+/**
+ * Reads the version, minimum version and API URL out of an api.xml response
+ */
+export function parseApiXml(xml: string): { version: number; minVersion: number; url: string } | undefined {
+  const field = (name: string) => xml.match(new RegExp(`<${name}>\\s*(?:<!\\[CDATA\\[)?(.*?)(?:\\]\\]>)?\\s*</${name}>`, 's'))?.[1];
+  const version = Number(field('version'));
+  const minVersion = Number(field('minversion'));
+  const url = field('url');
+  if (!Number.isInteger(version) || !Number.isInteger(minVersion) || url === undefined) {
+    return undefined;
+  }
+  return { version, minVersion, url };
+}
+
+/**
+ * Works out the JSON API endpoint from the XML API URL in api.xml. The URL is relative to
+ * the site (e.g. "api.asp?" when hosted, or "fogbugz/api.asp?" on an on-premise server
+ * under a virtual directory), and the JSON API lives alongside it.
+ */
+export function toJsonEndpoint(baseUrl: string, apiUrl: string): string {
+  const xmlApi = new URL(apiUrl, `${baseUrl}/`);
+  return new URL(JSON_API_PATH, xmlApi.origin + xmlApi.pathname.replace(/[^/]*$/, '')).toString();
+}
+
+/**
+ * Whether an instance still accepts the API version this client is written against
+ */
+export function isApiVersionSupported(info: FogBugzApiInfo): boolean {
+  return info.minVersion === undefined || info.minVersion <= API_VERSION;
+}
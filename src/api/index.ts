@@ -3,18 +3,59 @@ import FormData from 'form-data';
 import fs from 'fs';
 import {
   FogBugzConfig,
+  FogBugzApiInfo,
   FogBugzCase,
   FogBugzProject,
   FogBugzArea,
   FogBugzFixFor,
   FogBugzPriority,
   FogBugzPerson,
+  FogBugzStatus,
+  FogBugzCategory,
+  FogBugzCustomField,
+  FogBugzTag,
+  FogBugzInterval,
+  FogBugzWiki,
+  FogBugzArticle,
+  FogBugzRevision,
+  FogBugzTemplate,
+  FogBugzDiscussGroup,
+  FogBugzDiscussion,
+  FogBugzDiscussPost,
+  FogBugzScoutCase,
+  FogBugzCheckin,
+  FogBugzFilter,
+  FogBugzSnippet,
+  FogBugzMailbox,
+  FogBugzWorkingSchedule,
+  FogBugzProjectPercentTime,
+  FogBugzProjectPercentTimes,
   CreateCaseParams,
   EditCaseParams,
+  ResolveCaseParams,
+  EmailCaseParams,
+  ListIntervalsParams,
+  ListDiscussionParams,
+  ScoutReportParams,
+  NewCheckinParams,
   SearchParams,
   FileAttachment,
-  CreateProjectParams
+  RequestOptions,
+  CreateProjectParams,
+  CreateMilestoneParams,
+  EditMilestoneParams,
+  CreateArticleParams,
+  EditArticleParams,
+  CreateTemplateParams,
+  EditTemplateParams,
+  ListPeopleParams,
+  CreatePersonParams,
+  EditPersonParams,
+  EditProjectParams,
+  CreateAreaParams
 } from './types';
+import { JSON_API_PATH, parseApiXml, toJsonEndpoint } from './discovery';
+import { DEFAULT_TOKEN_CACHE_FILE, readCachedToken, writeCachedToken, clearCachedToken } from './token-cache';
 
 // Interface for the JSON payload sent to FogBugz API
 interface FogBugzJsonPayload {
@@ -27,10 +68,121 @@ interface FogBugzJsonPayload {
   [key: string]: any;
 }
 
+/**
+ * An error reported by FogBugz itself, with its error code, the HTTP status when the request
+ * failed outright and, for an ambiguous logon, the people the email address could belong to
+ */
+export class FogBugzApiError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: string,
+    public readonly people?: string[],
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'FogBugzApiError';
+  }
+}
+
+/**
+ * Thrown when an instance can't list its custom field definitions. Callers check
+ * lookupUnavailable rather than the class, so the check survives module mocking.
+ */
+export class CustomFieldLookupError extends Error {
+  readonly lookupUnavailable = true;
+
+  constructor(detail: string) {
+    super(`Custom field lookup is unavailable on this FogBugz instance (${detail})`);
+    this.name = 'CustomFieldLookupError';
+  }
+}
+
+/**
+ * FogBugz error codes for a logon matching several people, and for a missing or expired token
+ */
+const AMBIGUOUS_LOGON = '2';
+const NOT_LOGGED_ON = '3';
+
+/**
+ * Commands that only read data and are safe to send again after a failure
+ */
+const IDEMPOTENT_COMMAND = /^(list|view|search)/;
+
+/**
+ * Network error codes worth retrying; ECONNABORTED is what axios reports on a timeout
+ */
+const TRANSIENT_ERROR_CODES = new Set([
+  'ECONNABORTED',
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'EAI_AGAIN',
+  'EPIPE',
+  'ETIMEDOUT',
+]);
+
+/**
+ * Longest we'll wait before a retry, even if the server asks for longer
+ */
+const MAX_RETRY_DELAY_MS = 30000;
+
+/**
+ * Whether a failed request might succeed if sent again
+ */
+function isRetryableError(error: any): boolean {
+  if (error.response) {
+    return error.response.status >= 500 || error.response.status === 429;
+  }
+  return TRANSIENT_ERROR_CODES.has(error.code);
+}
+
+/**
+ * Reads a Retry-After header, given either in seconds or as an HTTP date, as milliseconds
+ */
+function parseRetryAfter(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value) * 1000;
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Whether FogBugz rejected a request because its token is missing or no longer valid
+ */
+function isNotLoggedOnError(error: any): boolean {
+  if (error instanceof FogBugzApiError) {
+    return error.code === NOT_LOGGED_ON;
+  }
+  const errors: any[] = error.response?.data?.errors || [];
+  return errors.some(e => String(e.code) === NOT_LOGGED_ON);
+}
+
+/**
+ * Whether FogBugz itself turned a command down, as opposed to failing to log on or to answer
+ */
+function isRejectedCommand(error: any): boolean {
+  return error instanceof FogBugzApiError && error.code !== NOT_LOGGED_ON && !(error.status && error.status >= 500);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
 export class FogBugzApi {
   private baseUrl: string;
-  private apiKey: string;
+  private token: string;
+  private email?: string;
+  private password?: string;
+  private tokenCacheFile: string;
+  private tokenCached = false;
   private apiEndpoint: string;
+  private unsupportedCommands = new Set<string>();
+  private allowAdminChanges: boolean;
+  private timeoutMs: number;
+  private maxRetries: number;
+  private retryDelayMs: number;
+  private log: (message: string) => void;
 
   /**
    * Create a new FogBugz API client
@@ -39,92 +191,291 @@ export class FogBugzApi {
     this.baseUrl = config.baseUrl.endsWith('/') 
       ? config.baseUrl.slice(0, -1) 
       : config.baseUrl;
-    this.apiKey = config.apiKey;
-    this.apiEndpoint = `${this.baseUrl}/f/api/0/jsonapi`;
+    this.token = config.apiKey ?? '';
+    // An API token takes precedence; the email and password are only used without one
+    if (!config.apiKey) {
+      this.email = config.email;
+      this.password = config.password;
+    }
+    this.tokenCacheFile = config.tokenCacheFile ?? DEFAULT_TOKEN_CACHE_FILE;
+    this.apiEndpoint = `${this.baseUrl}/${JSON_API_PATH}`;
+    this.allowAdminChanges = config.allowAdminChanges ?? false;
+    this.timeoutMs = config.timeoutMs ?? 30000;
+    this.maxRetries = config.maxRetries ?? 3;
+    this.retryDelayMs = config.retryDelayMs ?? 500;
+    this.log = config.log ?? (message => console.error(message));
+  }
+
+  /**
+   * Whether the server was configured to make administrator-only changes, such as user types
+   */
+  canMakeAdminChanges(): boolean {
+    return this.allowAdminChanges;
+  }
+
+  /**
+   * Read the instance's api.xml to find its API endpoint and version. If it can't be read,
+   * the standard endpoint is kept.
+   */
+  async discover(): Promise<FogBugzApiInfo> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/api.xml`, {
+        responseType: 'text',
+        timeout: this.timeoutMs,
+      });
+      const parsed = parseApiXml(String(response.data));
+      if (!parsed) {
+        throw new Error('no version information in the response');
+      }
+      this.apiEndpoint = toJsonEndpoint(this.baseUrl, parsed.url);
+      return { endpoint: this.apiEndpoint, version: parsed.version, minVersion: parsed.minVersion };
+    } catch (error: any) {
+      this.log(`Could not read ${this.baseUrl}/api.xml (${error.message}); using ${this.apiEndpoint}`);
+      return { endpoint: this.apiEndpoint };
+    }
   }
 
   /**
-   * Make a request to the FogBugz API
+   * Send read-only commands once to see whether the instance supports them. Only a command
+   * FogBugz rejects counts as unsupported; logon, network and server errors prove nothing.
+   */
+  async probeCommands(cmds: string[]): Promise<void> {
+    for (const cmd of cmds) {
+      try {
+        await this.request(cmd);
+      } catch (error: any) {
+        const rejected = isRejectedCommand(error);
+        if (rejected) this.unsupportedCommands.add(cmd);
+        this.log(`FogBugz ${cmd} failed (${error.message}); ${rejected ? 'treating it as unsupported' : 'assuming it is supported'}`);
+      }
+    }
+  }
+
+  /**
+   * Whether the instance supports an API command: true unless it rejected the command when probed
+   */
+  supportsCommand(cmd: string): boolean {
+    return !this.unsupportedCommands.has(cmd);
+  }
+
+  /**
+   * Whether the client logs on with an email and password rather than using an API token
+   */
+  usesLogon(): boolean {
+    return this.email !== undefined;
+  }
+
+  /**
+   * Log on with the configured email and password, reusing the cached session token unless
+   * told not to. Does nothing when the client was given an API token.
+   */
+  async logon(useCachedToken: boolean = true): Promise<void> {
+    if (this.email === undefined) return;
+
+    const cached = useCachedToken ? readCachedToken(this.tokenCacheFile, this.baseUrl, this.email) : undefined;
+    if (cached) {
+      this.token = cached;
+      this.tokenCached = true;
+      return;
+    }
+
+    let response: { token: string };
+    try {
+      // Logon takes no token; axios leaves the undefined one out of the payload
+      response = await this.request<{ token: string }>('logon', {
+        email: this.email,
+        password: this.password,
+        token: undefined,
+      });
+    } catch (error: any) {
+      if (error instanceof FogBugzApiError && error.code === AMBIGUOUS_LOGON && error.people?.length) {
+        throw new Error(
+          `FogBugz logon is ambiguous: several people use "${this.email}". ` +
+          `Log on with one of their full names instead: ${error.people.join(', ')}`
+        );
+      }
+      throw error;
+    }
+
+    this.token = response.token;
+    try {
+      writeCachedToken(this.tokenCacheFile, this.baseUrl, this.email, this.token);
+      this.tokenCached = true;
+    } catch (error: any) {
+      this.tokenCached = false;
+      this.log(`Could not cache the FogBugz session token in ${this.tokenCacheFile}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Whether the current session token is in the token cache, where restarts and other
+   * clients sharing the cache pick it up
+   */
+  hasCachedToken(): boolean {
+    return this.tokenCached;
+  }
+
+  /**
+   * Log off a session started by logon, invalidating its token. API tokens are left alone,
+   * since logging them off would sign out every other client using them.
+   */
+  async logoff(): Promise<void> {
+    if (this.email === undefined || !this.token) return;
+
+    try {
+      await this.request('logoff');
+    } finally {
+      this.token = '';
+      this.tokenCached = false;
+      clearCachedToken(this.tokenCacheFile);
+    }
+  }
+
+  /**
+   * Make a request to the FogBugz API. Read-only commands (list*, view*, search) are retried
+   * with exponential backoff on network errors, 5xx and 429 responses; other commands only
+   * when the caller passes retry: true, since sending them twice could apply them twice.
+   * When logged on with a password, an expired session token is replaced and the request
+   * sent again.
    */
   private async request<T>(
     cmd: string, 
     params: Record<string, any> = {}, 
-    files: FileAttachment[] = []
+    files: FileAttachment[] = [],
+    options: RequestOptions = {}
   ): Promise<T> {
-    try {
-      let response;
-
-      // Convert string cols to array format as required by JSON API
-      if (params.cols && typeof params.cols === 'string') {
-        params.cols = params.cols.split(',');
-      }
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+    const canRetry = options.retry ?? IDEMPOTENT_COMMAND.test(cmd);
+    let loggedOnAgain = false;
 
-      // If we have files, use multipart/form-data with a json field
-      if (files.length > 0) {
-        const form = new FormData();
-        
-        // Create the JSON payload
-        const jsonPayload: FogBugzJsonPayload = {
-          cmd,
-          token: this.apiKey,
-          ...params
-        };
-        
-        // Add files
-        let fileCount = 0;
-        for (let i = 0; i < files.length; i++) {
-          const file = files[i];
-          if (fs.existsSync(file.path)) {
-            const fieldName = file.fieldName || `File${i+1}`;
-            form.append(fieldName, fs.createReadStream(file.path));
-            fileCount++;
-          }
+    for (let attempt = 0; ; ) {
+      try {
+        return await this.send<T>(cmd, params, files, timeoutMs);
+      } catch (error: any) {
+        if (this.usesLogon() && !loggedOnAgain && cmd !== 'logon' && cmd !== 'logoff' && isNotLoggedOnError(error)) {
+          loggedOnAgain = true;
+          this.log(`FogBugz rejected the session token for ${cmd}; logging on again`);
+          await this.logon(false);
+          continue;
         }
-        
-        if (fileCount > 0) {
-          jsonPayload.nFileCount = fileCount;
+        if (!canRetry || attempt >= this.maxRetries || !isRetryableError(error)) {
+          throw this.toApiError(error, timeoutMs);
         }
-        
-        // Add the JSON payload as a string field named 'json'
-        form.append('json', JSON.stringify(jsonPayload));
-        
-        response = await axios.post(this.apiEndpoint, form, {
-          headers: {
-            ...form.getHeaders(),
-          },
-        });
-      } else {
-        // Regular JSON for standard requests
-        const jsonPayload: FogBugzJsonPayload = {
-          cmd,
-          token: this.apiKey,
-          ...params
-        };
-        
-        response = await axios.post(this.apiEndpoint, jsonPayload, {
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        });
-      }
 
-      if (response.data.errors && response.data.errors.length > 0) {
-        const errorMsg = response.data.errors.map((e: any) => e.message).join(', ');
-        throw new Error(`FogBugz API Error: ${errorMsg}`);
+        // Back off exponentially with jitter, unless the server says how long to wait
+        const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+        const backoff = this.retryDelayMs * 2 ** attempt * (0.5 + Math.random() / 2);
+        const delay = Math.min(retryAfter ?? backoff, MAX_RETRY_DELAY_MS);
+        const reason = error.response ? `HTTP ${error.response.status}` : error.code;
+        this.log(`FogBugz ${cmd} failed (${reason}); retry ${attempt + 1} of ${this.maxRetries} in ${Math.round(delay)}ms`);
+        await sleep(delay);
+        attempt++;
       }
+    }
+  }
 
-      return response.data.data as T;
-    } catch (error: any) {
-      if (error.response) {
-        const errorData = error.response.data;
-        const errorMsg = errorData.errors && errorData.errors.length > 0
-          ? errorData.errors.map((e: any) => e.message).join(', ')
-          : JSON.stringify(errorData);
-        
-        throw new Error(`FogBugz API Error: ${error.response.status} - ${errorMsg}`);
+  /**
+   * Send a single request to the FogBugz API
+   */
+  private async send<T>(
+    cmd: string, 
+    params: Record<string, any>, 
+    files: FileAttachment[],
+    timeoutMs: number
+  ): Promise<T> {
+    let response;
+
+    // Convert string cols to array format as required by JSON API
+    if (params.cols && typeof params.cols === 'string') {
+      params.cols = params.cols.split(',');
+    }
+
+    // If we have files, use multipart/form-data with a json field
+    if (files.length > 0) {
+      const form = new FormData();
+      
+      // Create the JSON payload
+      const jsonPayload: FogBugzJsonPayload = {
+        cmd,
+        token: this.token,
+        ...params
+      };
+      
+      // Add files
+      let fileCount = 0;
+      for (let i = 0; i < files.length; i++) {
+        const file = files[i];
+        if (fs.existsSync(file.path)) {
+          const fieldName = file.fieldName || `File${i+1}`;
+          form.append(fieldName, fs.createReadStream(file.path));
+          fileCount++;
+        }
       }
-      throw error;
+      
+      if (fileCount > 0) {
+        jsonPayload.nFileCount = fileCount;
+      }
+      
+      // Add the JSON payload as a string field named 'json'
+      form.append('json', JSON.stringify(jsonPayload));
+      
+      response = await axios.post(this.apiEndpoint, form, {
+        headers: {
+          ...form.getHeaders(),
+        },
+        timeout: timeoutMs,
+      });
+    } else {
+      // Regular JSON for standard requests
+      const jsonPayload: FogBugzJsonPayload = {
+        cmd,
+        token: this.token,
+        ...params
+      };
+      
+      response = await axios.post(this.apiEndpoint, jsonPayload, {
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        timeout: timeoutMs,
+      });
+    }
+
+    if (response.data.errors && response.data.errors.length > 0) {
+      const errorMsg = response.data.errors.map((e: any) => e.message).join(', ');
+      const code = response.data.errors[0].code;
+      throw new FogBugzApiError(
+        `FogBugz API Error: ${errorMsg}`,
+        code !== undefined && code !== null ? String(code) : undefined,
+        response.data.people
+      );
     }
+
+    return response.data.data as T;
+  }
+
+  /**
+   * Turn a failed request into an error with FogBugz's own message where there is one
+   */
+  private toApiError(error: any, timeoutMs: number): Error {
+    if (error.response) {
+      const errorData = error.response.data;
+      const errorMsg = errorData?.errors && errorData.errors.length > 0
+        ? errorData.errors.map((e: any) => e.message).join(', ')
+        : JSON.stringify(errorData);
+      const code = errorData?.errors?.[0]?.code;
+      
+      return new FogBugzApiError(
+        `FogBugz API Error: ${error.response.status} - ${errorMsg}`,
+        code !== undefined && code !== null ? String(code) : undefined,
+        undefined,
+        error.response.status
+      );
+    }
+    if (error.code === 'ECONNABORTED') {
+      return new Error(`FogBugz API Error: request timed out after ${timeoutMs}ms`);
+    }
+    return error;
   }
 
   /**
@@ -138,27 +489,118 @@ export class FogBugzApi {
   /**
    * Get a list of all projects
    */
-  async listProjects(): Promise<FogBugzProject[]> {
-    const response = await this.request<{ projects: FogBugzProject[] }>('listProjects');
+  async listProjects(includeDeleted: boolean = false): Promise<FogBugzProject[]> {
+    const params: Record<string, any> = {};
+    if (includeDeleted) params.fIncludeDeleted = 1;
+
+    const response = await this.request<{ projects: FogBugzProject[] }>('listProjects', params);
     return response.projects;
   }
 
   /**
-   * Get a list of all areas
+   * View a project by ID
    */
-  async listAreas(): Promise<FogBugzArea[]> {
-    const response = await this.request<{ areas: FogBugzArea[] }>('listAreas');
+  async viewProject(ixProject: number): Promise<FogBugzProject> {
+    const response = await this.request<{ project: FogBugzProject }>('viewProject', { ixProject });
+    return response.project;
+  }
+
+  /**
+   * Edit a project; only the fields sent are changed
+   */
+  async editProject(params: EditProjectParams): Promise<FogBugzProject> {
+    const response = await this.request<{ project: FogBugzProject }>('editProject', this.toProjectParams(params));
+    return response.project;
+  }
+
+  /**
+   * Get a list of all areas, optionally for one project
+   */
+  async listAreas(ixProject?: number): Promise<FogBugzArea[]> {
+    const params: Record<string, any> = {};
+    if (ixProject !== undefined) params.ixProject = ixProject;
+
+    const response = await this.request<{ areas: FogBugzArea[] }>('listAreas', params);
     return response.areas;
   }
 
   /**
-   * Get a list of all milestones (FixFors)
+   * View an area by ID
    */
-  async listMilestones(): Promise<FogBugzFixFor[]> {
-    const response = await this.request<{ fixfors: FogBugzFixFor[] }>('listFixFors');
+  async viewArea(ixArea: number): Promise<FogBugzArea> {
+    const response = await this.request<{ area: FogBugzArea }>('viewArea', { ixArea });
+    return response.area;
+  }
+
+  /**
+   * Create a new area in a project
+   */
+  async createArea(params: CreateAreaParams): Promise<FogBugzArea> {
+    const response = await this.request<{ area: FogBugzArea }>('newArea', params);
+    return response.area;
+  }
+
+  /**
+   * Get a list of all milestones (FixFors), optionally for one project
+   */
+  async listMilestones(ixProject?: number, includeInactive: boolean = false): Promise<FogBugzFixFor[]> {
+    const params: Record<string, any> = {};
+    if (ixProject !== undefined) params.ixProject = ixProject;
+    if (includeInactive) params.fIncludeDeleted = 1;
+
+    const response = await this.request<{ fixfors: FogBugzFixFor[] }>('listFixFors', params);
     return response.fixfors;
   }
 
+  /**
+   * View a specific milestone by ID
+   */
+  async viewMilestone(ixFixFor: number): Promise<FogBugzFixFor> {
+    const response = await this.request<{ fixfor: FogBugzFixFor }>('viewFixFor', { ixFixFor });
+    return response.fixfor;
+  }
+
+  /**
+   * Create a new milestone and return its ID
+   */
+  async createMilestone(params: CreateMilestoneParams): Promise<number> {
+    const response = await this.request<{ ixFixFor: number }>('newFixFor', this.toMilestoneParams(params));
+    return response.ixFixFor;
+  }
+
+  /**
+   * Edit a milestone. FogBugz clears any optional field that is not sent.
+   */
+  async editMilestone(params: EditMilestoneParams): Promise<number> {
+    const response = await this.request<{ ixFixFor: number }>('editFixFor', this.toMilestoneParams(params));
+    return response.ixFixFor;
+  }
+
+  /**
+   * Make one milestone depend on another
+   */
+  async addMilestoneDependency(ixFixFor: number, ixFixForDependsOn: number): Promise<void> {
+    await this.request('addFixForDependency', { ixFixFor, ixFixForDependsOn });
+  }
+
+  /**
+   * Remove a dependency between two milestones
+   */
+  async removeMilestoneDependency(ixFixFor: number, ixFixForDependsOn: number): Promise<void> {
+    await this.request('deleteFixForDependency', { ixFixFor, ixFixForDependsOn });
+  }
+
+  /**
+   * Convert milestone parameters to the 0/1 flags expected by the FixFor commands
+   */
+  private toMilestoneParams(params: CreateMilestoneParams | EditMilestoneParams): Record<string, any> {
+    const apiParams: Record<string, any> = { ...params };
+    if (params.fAssignable !== undefined) {
+      apiParams.fAssignable = params.fAssignable ? 1 : 0;
+    }
+    return apiParams;
+  }
+
   /**
    * Get a list of all priorities
    */
@@ -168,13 +610,203 @@ export class FogBugzApi {
   }
 
   /**
-   * Get a list of all people (users)
+   * Get a list of statuses, optionally limited to a category or to resolved statuses
+   */
+  async listStatuses(ixCategory?: number, resolvedOnly: boolean = false): Promise<FogBugzStatus[]> {
+    const params: Record<string, any> = {};
+    if (ixCategory !== undefined) params.ixCategory = ixCategory;
+    if (resolvedOnly) params.fResolved = true;
+
+    const response = await this.request<{ statuses: FogBugzStatus[] }>('listStatus', params);
+    return response.statuses;
+  }
+
+  /**
+   * View a status by ID
+   */
+  async viewStatus(ixStatus: number): Promise<FogBugzStatus> {
+    const response = await this.request<{ status: FogBugzStatus }>('viewStatus', { ixStatus });
+    return response.status;
+  }
+
+  /**
+   * Get a list of all categories
+   */
+  async listCategories(): Promise<FogBugzCategory[]> {
+    const response = await this.request<{ categories: FogBugzCategory[] }>('listCategories');
+    return response.categories;
+  }
+
+  /**
+   * View a category by ID
+   */
+  async viewCategory(ixCategory: number): Promise<FogBugzCategory> {
+    const response = await this.request<{ category: FogBugzCategory }>('viewCategory', { ixCategory });
+    return response.category;
+  }
+
+  /**
+   * Get a list of all tags with their usage counts
+   */
+  async listTags(): Promise<FogBugzTag[]> {
+    const response = await this.request<{ tags: FogBugzTag[] }>('listTags');
+    return response.tags;
+  }
+
+  /**
+   * Get a list of the mailboxes the current user can access
+   */
+  async listMailboxes(): Promise<FogBugzMailbox[]> {
+    const response = await this.request<{ mailboxes: FogBugzMailbox[] }>('listMailboxes');
+    return response.mailboxes;
+  }
+
+  /**
+   * View a mailbox by ID
+   */
+  async viewMailbox(ixMailbox: number): Promise<FogBugzMailbox> {
+    const response = await this.request<{ mailbox: FogBugzMailbox }>('viewMailbox', { ixMailbox });
+    return response.mailbox;
+  }
+
+  /**
+   * Get the snippets available to the current user, optionally only global ones
+   */
+  async listSnippets(globalOnly: boolean = false): Promise<FogBugzSnippet[]> {
+    const params: Record<string, any> = {};
+    if (globalOnly) params.fGlobalOnly = 1;
+
+    const response = await this.request<{ snippets: FogBugzSnippet[] }>('listSnippets', params);
+    return response.snippets;
+  }
+
+  /**
+   * Get the built-in, saved and shared filters available to the current user
+   */
+  async listFilters(): Promise<FogBugzFilter[]> {
+    const response = await this.request<{ filters: FogBugzFilter[] }>('listFilters');
+    return response.filters;
+  }
+
+  /**
+   * Make a filter the current user's current filter, which is what a search without q returns
+   */
+  async setCurrentFilter(sFilter: string): Promise<void> {
+    // Setting the same filter twice is harmless, so this is safe to retry
+    await this.request('setCurrentFilter', { sFilter }, [], { retry: true });
+  }
+
+  /**
+   * Get a person's working schedule, by default the current user's
+   */
+  async listWorkingSchedule(ixPerson?: number): Promise<FogBugzWorkingSchedule> {
+    const params: Record<string, any> = {};
+    if (ixPerson !== undefined) params.ixPerson = ixPerson;
+
+    const response = await this.request<{ workingSchedule: FogBugzWorkingSchedule }>('listWorkingSchedule', params);
+    return response.workingSchedule;
+  }
+
+  /**
+   * Work out the date reached by adding working hours to a start date, following a person's working schedule
+   */
+  async dateFromHours(hrs: number, dt: string, ixPerson?: number): Promise<string> {
+    const params: Record<string, any> = { hrs, dt };
+    if (ixPerson !== undefined) params.ixPerson = ixPerson;
+
+    const response = await this.request<{ dt: string }>('wsDateFromHours', params);
+    return response.dt;
+  }
+
+  /**
+   * Get a person's per-project time allocations, by default the current user's
+   */
+  async listProjectPercentTime(ixPerson?: number): Promise<FogBugzProjectPercentTimes> {
+    const params: Record<string, any> = {};
+    if (ixPerson !== undefined) params.ixPerson = ixPerson;
+
+    return this.request<FogBugzProjectPercentTimes>('listProjectPercentTime', params);
+  }
+
+  /**
+   * Allocate a percentage of the current user's time to a project
+   */
+  async addProjectPercentTime(ixProject: number, nPercent: number): Promise<FogBugzProjectPercentTime> {
+    const response = await this.request<{ projectpercenttime: FogBugzProjectPercentTime }>(
+      'addProjectPercentTime',
+      { ixProject, nPercent }
+    );
+    return response.projectpercenttime;
+  }
+
+  /**
+   * Change an existing project time allocation
+   */
+  async editProjectPercentTime(ixProjectPercentTime: number, nPercent: number): Promise<FogBugzProjectPercentTime> {
+    const response = await this.request<{ projectpercenttime: FogBugzProjectPercentTime }>(
+      'editProjectPercentTime',
+      { ixProjectPercentTime, nPercent }
+    );
+    return response.projectpercenttime;
+  }
+
+  /**
+   * Remove a project time allocation
    */
-  async listPeople(): Promise<FogBugzPerson[]> {
-    const response = await this.request<{ people: FogBugzPerson[] }>('listPeople');
+  async deleteProjectPercentTime(ixProjectPercentTime: number): Promise<void> {
+    await this.request('deleteProjectPercentTime', { ixProjectPercentTime });
+  }
+
+  /**
+   * Get a list of people (users); by default only active normal users
+   */
+  async listPeople(params: ListPeopleParams = {}): Promise<FogBugzPerson[]> {
+    const apiParams: Record<string, any> = {};
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) apiParams[key] = value ? 1 : 0;
+    }
+
+    const response = await this.request<{ people: FogBugzPerson[] }>('listPeople', apiParams);
     return response.people;
   }
 
+  /**
+   * View a person by ID or email
+   */
+  async viewPerson(person: { ixPerson?: number; sEmail?: string }): Promise<FogBugzPerson> {
+    const response = await this.request<{ person: FogBugzPerson }>('viewPerson', person);
+    return response.person;
+  }
+
+  /**
+   * Create a new person (user)
+   */
+  async createPerson(params: CreatePersonParams): Promise<FogBugzPerson> {
+    const response = await this.request<{ person: FogBugzPerson }>('newPerson', this.toPersonParams(params));
+    return response.person;
+  }
+
+  /**
+   * Edit a person; only the fields sent are changed
+   */
+  async editPerson(params: EditPersonParams): Promise<FogBugzPerson> {
+    const response = await this.request<{ person: FogBugzPerson }>('editPerson', this.toPersonParams(params));
+    return response.person;
+  }
+
+  /**
+   * Convert person flags to the 0/1 values FogBugz expects
+   */
+  private toPersonParams(params: CreatePersonParams | EditPersonParams): Record<string, any> {
+    const apiParams: Record<string, any> = { ...params };
+    for (const flag of ['fActive', 'fNotify', 'fDeleted']) {
+      if (apiParams[flag] !== undefined) {
+        apiParams[flag] = apiParams[flag] ? 1 : 0;
+      }
+    }
+    return apiParams;
+  }
+
   /**
    * Create a new case
    */
@@ -202,11 +834,11 @@ export class FogBugzApi {
    */
   async assignCase(
     caseId: number, 
-    personName: string
+    ixPersonAssignedTo: number
   ): Promise<FogBugzCase> {
     const params = {
       ixBug: caseId,
-      sPersonAssignedTo: personName
+      ixPersonAssignedTo
     };
     
     const response = await this.request<{ case: FogBugzCase }>('assign', params);
@@ -214,7 +846,156 @@ export class FogBugzApi {
   }
 
   /**
-   * Search for cases
+   * Resolve a case
+   */
+  async resolveCase(params: ResolveCaseParams): Promise<FogBugzCase> {
+    const response = await this.request<{ case: FogBugzCase }>('resolve', params);
+    return response.case;
+  }
+
+  /**
+   * Close a resolved case
+   */
+  async closeCase(caseId: number, comment?: string): Promise<FogBugzCase> {
+    return this.changeCaseState('close', caseId, comment);
+  }
+
+  /**
+   * Reopen a closed case
+   */
+  async reopenCase(caseId: number, comment?: string): Promise<FogBugzCase> {
+    return this.changeCaseState('reopen', caseId, comment);
+  }
+
+  /**
+   * Reactivate a resolved case
+   */
+  async reactivateCase(caseId: number, comment?: string): Promise<FogBugzCase> {
+    return this.changeCaseState('reactivate', caseId, comment);
+  }
+
+  /**
+   * Run one of the lifecycle commands that take only a case ID and an optional comment
+   */
+  private async changeCaseState(
+    cmd: 'close' | 'reopen' | 'reactivate',
+    caseId: number,
+    comment?: string
+  ): Promise<FogBugzCase> {
+    const params: Record<string, any> = { ixBug: caseId };
+    if (comment) params.sEvent = comment;
+
+    const response = await this.request<{ case: FogBugzCase }>(cmd, params);
+    return response.case;
+  }
+
+  /**
+   * Send an email from a case
+   */
+  async emailCase(
+    params: EmailCaseParams,
+    attachments: FileAttachment[] = []
+  ): Promise<FogBugzCase> {
+    const response = await this.request<{ case: FogBugzCase }>('email', params, attachments);
+    return response.case;
+  }
+
+  /**
+   * Reply to the latest email on a case
+   */
+  async replyToCase(
+    params: EmailCaseParams,
+    attachments: FileAttachment[] = []
+  ): Promise<FogBugzCase> {
+    const response = await this.request<{ case: FogBugzCase }>('reply', params, attachments);
+    return response.case;
+  }
+
+  /**
+   * Forward a case by email
+   */
+  async forwardCase(
+    params: EmailCaseParams,
+    attachments: FileAttachment[] = []
+  ): Promise<FogBugzCase> {
+    const response = await this.request<{ case: FogBugzCase }>('forward', params, attachments);
+    return response.case;
+  }
+
+  /**
+   * Start the work timer on a case, stopping any timer already running
+   */
+  async startWork(caseId: number): Promise<void> {
+    await this.request('startWork', { ixBug: caseId });
+  }
+
+  /**
+   * Stop the work timer
+   */
+  async stopWork(): Promise<void> {
+    await this.request('stopWork');
+  }
+
+  /**
+   * Record a time interval that has already happened
+   */
+  async createInterval(caseId: number, dtStart: string, dtEnd: string): Promise<FogBugzInterval> {
+    const response = await this.request<{ interval: FogBugzInterval }>('newInterval', {
+      ixBug: caseId,
+      dtStart,
+      dtEnd,
+    });
+    return response.interval;
+  }
+
+  /**
+   * List time intervals, by default for the current user
+   */
+  async listIntervals(params: ListIntervalsParams = {}): Promise<FogBugzInterval[]> {
+    const response = await this.request<{ intervals: FogBugzInterval[] }>('listIntervals', params);
+    return response.intervals;
+  }
+
+  /**
+   * Submit a BugzScout crash report. FogBugz adds an occurrence to the existing
+   * case when one has the same sScoutDescription, and creates a case otherwise.
+   */
+  async submitScoutReport(params: ScoutReportParams): Promise<FogBugzCase> {
+    const apiParams: Record<string, any> = { ...params };
+    if (params.fScoutStopReporting !== undefined) {
+      apiParams.fScoutStopReporting = params.fScoutStopReporting ? 1 : 0;
+    }
+
+    const response = await this.request<{ case: FogBugzCase }>('new', apiParams);
+    return response.case;
+  }
+
+  /**
+   * Find the BugzScout case for a crash description
+   */
+  async listScoutCase(sScoutDescription: string): Promise<FogBugzScoutCase | undefined> {
+    const response = await this.request<{ case?: FogBugzScoutCase }>('listScoutCase', { sScoutDescription });
+    return response.case;
+  }
+
+  /**
+   * Associate a source control checkin with a case
+   */
+  async createCheckin(params: NewCheckinParams): Promise<FogBugzCheckin> {
+    const response = await this.request<{ checkin: FogBugzCheckin }>('newCheckin', params);
+    return response.checkin;
+  }
+
+  /**
+   * Get the checkins associated with a case
+   */
+  async listCheckins(caseId: number): Promise<FogBugzCheckin[]> {
+    const response = await this.request<{ checkins: FogBugzCheckin[] }>('listCheckins', { ixBug: caseId });
+    return response.checkins;
+  }
+
+  /**
+   * Search for cases; without q this returns the cases in the current filter
    */
   async searchCases(params: SearchParams): Promise<FogBugzCase[]> {
     const response = await this.request<{ cases: FogBugzCase[] }>('search', params);
@@ -222,10 +1003,31 @@ export class FogBugzApi {
   }
 
   /**
-   * View a specific case by ID
+   * Get the custom and plugin fields defined on this instance, with their types.
+   * listCustomFields isn't in the published API docs, so an instance that rejects it, or
+   * answers in another shape, is reported as not supporting custom field lookup.
    */
-  async viewCase(caseId: number, includeEvents: boolean = false): Promise<FogBugzCase> {
-    const cols = [
+  async listCustomFields(): Promise<FogBugzCustomField[]> {
+    let response: { customFields?: FogBugzCustomField[] };
+    try {
+      response = await this.request<{ customFields?: FogBugzCustomField[] }>('listCustomFields');
+    } catch (error: any) {
+      if (isRejectedCommand(error)) {
+        throw new CustomFieldLookupError(error.message);
+      }
+      throw error;
+    }
+    if (!Array.isArray(response?.customFields)) {
+      throw new CustomFieldLookupError('unexpected listCustomFields response');
+    }
+    return response.customFields;
+  }
+
+  /**
+   * View a specific case by ID, optionally fetching only the given columns
+   */
+  async viewCase(caseId: number, includeEvents: boolean = false, columns?: string[]): Promise<FogBugzCase> {
+    const cols = columns ? [...new Set(['ixBug', ...columns])] : [
       'ixBug',
       'sTitle',
       'sStatus',
@@ -240,6 +1042,18 @@ export class FogBugzApi {
       'ixFixFor',
       'sPersonAssignedTo',
       'ixPersonAssignedTo',
+      'sCategory',
+      'ixCategory',
+      'fOpen',
+      'ixBugParent',
+      'ixBugChildren',
+      'tags',
+      'sCustomerEmail',
+      'sTicket',
+      'hrsCurrEst',
+      'hrsElapsed',
+      'dblStoryPts',
+      'dtDue',
     ];
 
     if (includeEvents) {
@@ -259,6 +1073,142 @@ export class FogBugzApi {
     return response.cases[0];
   }
 
+  /**
+   * Get a list of all wikis
+   */
+  async listWikis(): Promise<FogBugzWiki[]> {
+    const response = await this.request<{ wikis: FogBugzWiki[] }>('listWikis');
+    return response.wikis;
+  }
+
+  /**
+   * Get a list of the articles in a wiki
+   */
+  async listArticles(ixWiki: number): Promise<FogBugzArticle[]> {
+    const response = await this.request<{ articles: FogBugzArticle[] }>('listArticles', { ixWiki });
+    return response.articles;
+  }
+
+  /**
+   * View a wiki article, at its latest revision unless one is given
+   */
+  async viewArticle(ixWikiPage: number, nRevision?: number): Promise<FogBugzArticle> {
+    const params: Record<string, any> = { ixWikiPage };
+    if (nRevision !== undefined) params.nRevision = nRevision;
+
+    const response = await this.request<{ wikipage: FogBugzArticle }>('viewArticle', params);
+    return { ...response.wikipage, ixWikiPage };
+  }
+
+  /**
+   * Create a new wiki article
+   */
+  async createArticle(params: CreateArticleParams): Promise<FogBugzArticle> {
+    const response = await this.request<{ article: FogBugzArticle }>('newArticle', params);
+    return response.article;
+  }
+
+  /**
+   * Edit a wiki article
+   */
+  async editArticle(params: EditArticleParams): Promise<FogBugzArticle> {
+    const response = await this.request<{ article: FogBugzArticle }>('editArticle', params);
+    return response.article;
+  }
+
+  /**
+   * Get the revision history of a wiki article
+   */
+  async listRevisions(ixWikiPage: number): Promise<FogBugzRevision[]> {
+    const response = await this.request<{ revisions: FogBugzRevision[] }>('listRevisions', { ixWikiPage });
+    return response.revisions;
+  }
+
+  /**
+   * Get a list of all wiki templates
+   */
+  async listTemplates(): Promise<FogBugzTemplate[]> {
+    const response = await this.request<{ templates: FogBugzTemplate[] }>('listTemplates');
+    return response.templates;
+  }
+
+  /**
+   * View a wiki template, at its latest revision unless one is given
+   */
+  async viewTemplate(ixTemplate: number, nRevision?: number): Promise<FogBugzTemplate> {
+    const params: Record<string, any> = { ixTemplate };
+    if (nRevision !== undefined) params.nRevision = nRevision;
+
+    const response = await this.request<{ template: FogBugzTemplate }>('viewTemplate', params);
+    return { ...response.template, ixTemplate };
+  }
+
+  /**
+   * Create a new wiki template
+   */
+  async createTemplate(params: CreateTemplateParams): Promise<FogBugzTemplate> {
+    const response = await this.request<{ template: FogBugzTemplate }>('newTemplate', this.toTemplateParams(params));
+    return response.template;
+  }
+
+  /**
+   * Edit a wiki template
+   */
+  async editTemplate(params: EditTemplateParams): Promise<FogBugzTemplate> {
+    const response = await this.request<{ template: FogBugzTemplate }>('editTemplate', this.toTemplateParams(params));
+    return response.template;
+  }
+
+  /**
+   * Get the revision history of a wiki template
+   */
+  async listTemplateRevisions(ixTemplate: number): Promise<FogBugzRevision[]> {
+    const response = await this.request<{ revisions: FogBugzRevision[] }>('listTemplateRevisions', { ixTemplate });
+    return response.revisions;
+  }
+
+  /**
+   * Delete a wiki template
+   */
+  async deleteTemplate(ixTemplate: number): Promise<void> {
+    await this.request('deleteTemplate', { ixTemplate });
+  }
+
+  /**
+   * Convert template parameters to the 0/1 flags expected by the template commands
+   */
+  private toTemplateParams(params: CreateTemplateParams | EditTemplateParams): Record<string, any> {
+    const apiParams: Record<string, any> = { ...params };
+    if (params.fDefault !== undefined) {
+      apiParams.fDefault = params.fDefault ? 1 : 0;
+    }
+    return apiParams;
+  }
+
+  /**
+   * Get a list of all discussion groups
+   */
+  async listDiscussGroups(): Promise<FogBugzDiscussGroup[]> {
+    const response = await this.request<{ discussions: FogBugzDiscussGroup[] }>('listDiscussGroups');
+    return response.discussions;
+  }
+
+  /**
+   * Get the topics in a discussion group, optionally for one month
+   */
+  async listDiscussion(params: ListDiscussionParams): Promise<FogBugzDiscussion> {
+    const response = await this.request<{ discussion: FogBugzDiscussion }>('listDiscussion', params);
+    return response.discussion;
+  }
+
+  /**
+   * Get a discussion topic and all of its replies
+   */
+  async listDiscussTopic(ixDiscussTopic: number): Promise<FogBugzDiscussPost[]> {
+    const response = await this.request<{ topic: { posts: FogBugzDiscussPost[] } }>('listDiscussTopic', { ixDiscussTopic });
+    return response.topic.posts;
+  }
+
   /**
    * Get a direct link to a case
    */
@@ -266,29 +1216,47 @@ export class FogBugzApi {
     return `${this.baseUrl}/default.asp?${caseId}`;
   }
 
+  /**
+   * Get the customer-facing link to a case's ticket
+   */
+  getTicketLink(ticket: string): string {
+    return `${this.baseUrl}/default.asp?pg=pgPublicView&sTicket=${encodeURIComponent(ticket)}`;
+  }
+
+  /**
+   * Get a direct link to a wiki article
+   */
+  getArticleLink(articleId: number): string {
+    return `${this.baseUrl}/default.asp?W${articleId}`;
+  }
+
+  /**
+   * Get a direct link to a discussion topic
+   */
+  getDiscussTopicLink(topicId: number): string {
+    return `${this.baseUrl}/default.asp?pg=pgDiscussTopic&ixDiscussTopic=${topicId}`;
+  }
+
   /**
    * Create a new project
    */
   async createProject(params: CreateProjectParams): Promise<FogBugzProject> {
-    // Create a new params object with converted values
-    const apiParams: Record<string, any> = {};
-    
-    // Copy all string and number parameters
-    apiParams.sProject = params.sProject;
-    if (params.ixPersonPrimaryContact !== undefined) {
-      apiParams.ixPersonPrimaryContact = params.ixPersonPrimaryContact;
-    }
-    
-    // Convert boolean parameters to 0/1 format expected by FogBugz API
+    const response = await this.request<{ project: FogBugzProject }>('newProject', this.toProjectParams(params));
+    return response.project;
+  }
+
+  /**
+   * Convert project flags to the 0/1 values FogBugz expects
+   */
+  private toProjectParams(params: CreateProjectParams | EditProjectParams): Record<string, any> {
+    const apiParams: Record<string, any> = { ...params };
     if (params.fInbox !== undefined) {
       apiParams.fInbox = params.fInbox ? 1 : 0;
     }
     if (params.fAllowPublicSubmit !== undefined) {
       apiParams.fAllowPublicSubmit = params.fAllowPublicSubmit ? 1 : 0;
     }
-
-    const response = await this.request<{ project: FogBugzProject }>('newProject', apiParams);
-    return response.project;
+    return apiParams;
   }
 }
 
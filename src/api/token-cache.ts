@@ -0,0 +1,59 @@
+/**
+ * A small file cache for the session token FogBugz hands out when logging on
+ * with an email and password, so restarts don't need a fresh logon. The file
+ * is readable by its owner only, since the token grants the user's access.
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+interface CachedToken {
+  baseUrl: string;
+  email: string;
+  token: string;
+}
+
+/**
+ * Where the token is cached unless configured otherwise
+ */
+export const DEFAULT_TOKEN_CACHE_FILE = path.join(os.homedir(), '.fogbugz-mcp-token.json');
+
+/**
+ * Reads the cached token for a FogBugz instance and user, if there is one
+ */
+export function readCachedToken(file: string, baseUrl: string, email: string): string | undefined {
+  try {
+    const cached: CachedToken = JSON.parse(fs.readFileSync(file, 'utf8'));
+    return cached.baseUrl === baseUrl && cached.email === email && cached.token ? cached.token : undefined;
+  } catch {
+    // A missing or unreadable cache just means logging on again
+    return undefined;
+  }
+}
+
+/**
+ * Caches a token, replacing whatever was cached before
+ */
+export function writeCachedToken(file: string, baseUrl: string, email: string, token: string): void {
+  const cached: CachedToken = { baseUrl, email, token };
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+
+  // Write a new owner-only file and move it over the cache, so the token is never
+  // in a file others can read, even briefly
+  const tempFile = `${file}.${process.pid}.tmp`;
+  fs.rmSync(tempFile, { force: true });
+  try {
+    fs.writeFileSync(tempFile, JSON.stringify(cached), { mode: 0o600, flag: 'wx' });
+    fs.renameSync(tempFile, file);
+  } catch (error) {
+    fs.rmSync(tempFile, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Removes the cached token
+ */
+export function clearCachedToken(file: string): void {
+  fs.rmSync(file, { force: true });
+}
@@ -4,7 +4,33 @@
 
 export interface FogBugzConfig {
   baseUrl: string;
-  apiKey: string;
+  apiKey?: string;
+  email?: string;
+  password?: string;
+  tokenCacheFile?: string;
+  allowAdminChanges?: boolean;
+  timeoutMs?: number;
+  maxRetries?: number;
+  retryDelayMs?: number;
+  log?: (message: string) => void;
+}
+
+/**
+ * Where an instance serves the JSON API and which API versions it speaks, from api.xml.
+ * The versions are missing when api.xml couldn't be read.
+ */
+export interface FogBugzApiInfo {
+  endpoint: string;
+  version?: number;
+  minVersion?: number;
+}
+
+/**
+ * Per-call overrides for how a request is sent
+ */
+export interface RequestOptions {
+  timeoutMs?: number;
+  retry?: boolean;
 }
 
 export interface FogBugzCase {
@@ -22,10 +48,30 @@ export interface FogBugzCase {
   ixFixFor?: number;
   sPersonAssignedTo?: string;
   ixPersonAssignedTo?: number;
+  sCategory?: string;
+  ixCategory?: number;
+  fOpen?: boolean;
+  ixBugParent?: number;
+  ixBugChildren?: number[] | string;
+  tags?: Array<string | { tag: string }>;
+  hrsOrigEst?: number;
+  hrsCurrEst?: number;
+  hrsElapsed?: number;
+  hrsElapsedExtra?: number;
+  dblStoryPts?: number;
+  dtDue?: string | null;
   events?: FogBugzEvent[];
   [key: string]: any;
 }
 
+export interface FogBugzCustomField {
+  sFieldName: string;
+  sDisplayName?: string;
+  sType: string;
+  rgsChoices?: string[];
+  [key: string]: any;
+}
+
 export interface FogBugzEvent {
   ixBugEvent: number;
   ixBug?: number;
@@ -40,6 +86,12 @@ export interface FogBugzEvent {
   sText?: string;
   fEmail?: boolean;
   fExternal?: boolean;
+  sFrom?: string;
+  sTo?: string;
+  sCC?: string;
+  sBCC?: string;
+  sReplyTo?: string;
+  sSubject?: string;
   sFormat?: string;
   sChanges?: string;
   [key: string]: any;
@@ -48,6 +100,12 @@ export interface FogBugzEvent {
 export interface FogBugzProject {
   ixProject: number;
   sProject: string;
+  ixPersonOwner?: number;
+  sPersonOwner?: string;
+  fInbox?: boolean;
+  fDeleted?: boolean;
+  fAllowPublicSubmit?: boolean;
+  sPublicSubmitEmail?: string;
   [key: string]: any;
 }
 
@@ -55,12 +113,26 @@ export interface FogBugzArea {
   ixArea: number;
   sArea: string;
   ixProject: number;
+  sProject?: string;
+  ixPersonOwner?: number;
+  sPersonOwner?: string;
+  nType?: number;
+  cDoc?: number;
+  fDeleted?: boolean;
   [key: string]: any;
 }
 
 export interface FogBugzFixFor {
   ixFixFor: number;
   sFixFor: string;
+  ixProject?: number | null;
+  sProject?: string | null;
+  dt?: string | null;
+  dtStart?: string | null;
+  sStartNote?: string | null;
+  fDeleted?: boolean | number;
+  fInactive?: boolean;
+  setixFixForDependency?: Array<{ ixFixFor: number } | number> | string;
   [key: string]: any;
 }
 
@@ -70,14 +142,238 @@ export interface FogBugzPriority {
   [key: string]: any;
 }
 
+export interface FogBugzStatus {
+  ixStatus: number;
+  sStatus: string;
+  ixCategory: number;
+  fWorkDone?: boolean;
+  fResolved?: boolean;
+  fDuplicate?: boolean;
+  fDeleted?: boolean;
+  iOrder?: number;
+  [key: string]: any;
+}
+
+export interface FogBugzCategory {
+  ixCategory: number;
+  sCategory: string;
+  sPlural?: string;
+  ixStatusDefault?: number;
+  ixStatusDefaultActive?: number;
+  fIsScheduleItem?: boolean;
+  fDeleted?: boolean;
+  iOrder?: number;
+  nIconType?: number;
+  ixAttachmentIcon?: number;
+  [key: string]: any;
+}
+
+export interface FogBugzTag {
+  ixTag: number;
+  sTag: string;
+  cTagUses?: number;
+  [key: string]: any;
+}
+
+export interface FogBugzMailbox {
+  ixMailbox: number;
+  sEmail: string;
+  sEmailUser?: string;
+  sTemplate?: string;
+  [key: string]: any;
+}
+
+export interface FogBugzSnippet {
+  ixSnippet: number;
+  sName: string;
+  sComment?: string;
+  s: string;
+  ixPerson?: number;
+  [key: string]: any;
+}
+
+export interface FogBugzFilter {
+  type: 'builtin' | 'saved' | 'shared';
+  sFilter: string;
+  name: string;
+  status?: string;
+  [key: string]: any;
+}
+
+export interface FogBugzInterval {
+  ixInterval: number;
+  ixBug: number;
+  ixPerson?: number;
+  dtStart: string;
+  dtEnd?: string;
+  sTitle?: string;
+  [key: string]: any;
+}
+
+export interface FogBugzWiki {
+  ixWiki: number;
+  sWiki: string;
+  sTagLineHTML?: string;
+  ixWikiPageRoot?: number;
+  ixTemplate?: number;
+  fDeleted?: boolean;
+  [key: string]: any;
+}
+
+export interface FogBugzArticle {
+  ixWikiPage: number;
+  sHeadline: string;
+  sBody?: string;
+  nRevision?: number;
+  tags?: Array<{ sTag: string } | string>;
+  [key: string]: any;
+}
+
+export interface FogBugzRevision {
+  nRevision: number;
+  ixPerson?: number;
+  sRemoteIP?: string;
+  sTitle?: string;
+  sComment?: string;
+  fDiff?: boolean;
+  dt: string;
+  [key: string]: any;
+}
+
+export interface FogBugzTemplate {
+  ixTemplate: number;
+  sTemplate: string;
+  sBodyHTML?: string;
+  sBodyCSS?: string;
+  nRevision?: number;
+  fReadOnly?: boolean;
+  fDefault?: boolean;
+  [key: string]: any;
+}
+
+export interface FogBugzDiscussGroup {
+  ixDiscussGroup: number;
+  sFullName: string;
+  sURL?: string;
+  sTagLineHTML?: string;
+  [key: string]: any;
+}
+
+export interface FogBugzDiscussPost {
+  ixDiscussTopic: number;
+  ixDiscussTopicParent: number;
+  sHeadline: string;
+  sFullName?: string;
+  sURL?: string;
+  dt: string;
+  sPost?: string;
+  fModerator?: boolean;
+  fAuthorized?: boolean;
+  [key: string]: any;
+}
+
+export interface FogBugzDiscussion {
+  sFullName: string;
+  sURL?: string;
+  sTagLineHTML?: string;
+  topics: Array<{ post: FogBugzDiscussPost }>;
+  [key: string]: any;
+}
+
+export interface FogBugzScoutCase {
+  ixBug: number;
+  sScoutDescription: string;
+  sScoutMessage?: string;
+  fScoutStopReporting?: boolean;
+  dtLastOccurrence?: string;
+  [key: string]: any;
+}
+
+export interface FogBugzCheckin {
+  ixCVS: number;
+  ixBug: number;
+  sFile: string;
+  sPrev: string;
+  sNew: string;
+  sRepo?: string;
+  ixRepository?: number;
+  [key: string]: any;
+}
+
+export interface FogBugzWorkingSchedule {
+  ixPerson: number;
+  nHoursPerDay: number;
+  nWorkdayStarts: number;
+  nWorkdayEnds: number;
+  fHasLunch?: boolean;
+  nLunchStarts?: number;
+  hrsLunchLength?: number;
+  dtLastUpdated?: string;
+  rgWorkDays?: Record<string, boolean>;
+  [key: string]: any;
+}
+
+export interface FogBugzProjectPercentTime {
+  ixProjectPercentTime: number;
+  ixPerson: number;
+  ixProject: number;
+  nPercent: number;
+  m_nPercentLast?: number;
+  [key: string]: any;
+}
+
+export interface FogBugzProjectPercentTimes {
+  projectpercenttimes: FogBugzProjectPercentTime[];
+  nPercentTimeAllOtherProjects: number;
+}
+
 export interface FogBugzPerson {
   ixPerson: number;
   sPerson?: string;
   sFullName?: string;
   sEmail: string;
+  sPhone?: string;
+  fAdministrator?: boolean;
+  fCommunity?: boolean;
+  fVirtual?: boolean;
+  fDeleted?: boolean;
+  fNotify?: boolean;
+  sHomepage?: string;
+  sLocale?: string;
+  sLanguage?: string;
+  sTimeZoneKey?: string;
+  ixBugWorkingOn?: number;
+  nType?: number;
   [key: string]: any;
 }
 
+export interface ListPeopleParams {
+  fIncludeActive?: boolean;
+  fIncludeNormal?: boolean;
+  fIncludeDeleted?: boolean;
+  fIncludeCommunity?: boolean;
+  fIncludeVirtual?: boolean;
+}
+
+export interface CreatePersonParams {
+  sEmail: string;
+  sFullname: string;
+  nType?: number;
+  fActive?: boolean;
+  sPassword?: string;
+  sLocale?: string;
+  sLanguage?: string;
+  sTimeZoneKey?: string;
+  fNotify?: boolean;
+  sPhone?: string;
+  sHomepage?: string;
+}
+
+export interface EditPersonParams extends Partial<CreatePersonParams> {
+  ixPerson: number;
+  fDeleted?: boolean;
+}
+
 export interface CreateCaseParams {
   sTitle: string;
   sEvent?: string;
@@ -91,6 +387,12 @@ export interface CreateCaseParams {
   ixPriority?: number;
   sPersonAssignedTo?: string;
   ixPersonAssignedTo?: number;
+  ixBugParent?: number;
+  sCategory?: string;
+  ixCategory?: number;
+  dtDue?: string;
+  hrsCurrEst?: number;
+  dblStoryPts?: number;
   [key: string]: any;
 }
 
@@ -108,11 +410,71 @@ export interface EditCaseParams {
   ixPriority?: number;
   sPersonAssignedTo?: string;
   ixPersonAssignedTo?: number;
+  ixBugParent?: number;
+  sCategory?: string;
+  ixCategory?: number;
+  dtDue?: string;
+  hrsCurrEst?: number;
+  hrsElapsedExtra?: number;
+  dblStoryPts?: number;
+  sTags?: string;
   [key: string]: any;
 }
 
+export interface ResolveCaseParams {
+  ixBug: number;
+  ixStatus?: number;
+  sEvent?: string;
+  ixBugOriginal?: number;
+}
+
+export interface EmailCaseParams {
+  ixBug: number;
+  sTo: string;
+  sFrom?: string;
+  sCC?: string;
+  sBCC?: string;
+  sSubject?: string;
+  sEvent: string;
+  ixBugEventAttachment?: number;
+}
+
+export interface ListIntervalsParams {
+  ixPerson?: number;
+  ixBug?: number;
+  dtStart?: string;
+  dtEnd?: string;
+}
+
+export interface ListDiscussionParams {
+  ixDiscussGroup: number;
+  fFull?: number;
+  m?: number;
+  y?: number;
+}
+
+export interface ScoutReportParams {
+  sTitle: string;
+  sScoutDescription: string;
+  sScoutMessage?: string;
+  fScoutStopReporting?: boolean;
+  sEvent?: string;
+  sProject?: string;
+  ixProject?: number;
+  sArea?: string;
+  ixArea?: number;
+}
+
+export interface NewCheckinParams {
+  ixBug: number;
+  sFile: string;
+  sPrev: string;
+  sNew: string;
+  ixRepository?: number;
+}
+
 export interface SearchParams {
-  q: string;
+  q?: string;
   cols?: string[] | string;
   max?: number;
 }
@@ -124,6 +486,66 @@ export interface CreateProjectParams {
   fInbox?: boolean;
 }
 
+export interface EditProjectParams extends Partial<CreateProjectParams> {
+  ixProject: number;
+}
+
+export interface CreateAreaParams {
+  ixProject: number;
+  sArea: string;
+  ixPersonPrimaryContact?: number;
+}
+
+export interface CreateMilestoneParams {
+  ixProject: number;
+  sFixFor: string;
+  dtRelease?: string;
+  dtStart?: string;
+  sStartNote?: string;
+  fAssignable?: boolean;
+}
+
+export interface EditMilestoneParams {
+  ixFixFor: number;
+  sFixFor: string;
+  dtRelease?: string;
+  dtStart?: string;
+  sStartNote?: string;
+  fAssignable?: boolean;
+}
+
+export interface CreateArticleParams {
+  ixWiki: number;
+  sHeadline: string;
+  sBody: string;
+  sTags?: string;
+}
+
+export interface EditArticleParams {
+  ixWikiPage: number;
+  sHeadline?: string;
+  sBody?: string;
+  sComment?: string;
+  sTags?: string;
+}
+
+export interface CreateTemplateParams {
+  sTemplate: string;
+  sBodyHTML: string;
+  sBodyCSS: string;
+  sComment?: string;
+  fDefault?: boolean;
+}
+
+export interface EditTemplateParams {
+  ixTemplate: number;
+  sTemplate?: string;
+  sBodyHTML?: string;
+  sBodyCSS?: string;
+  sComment?: string;
+  fDefault?: boolean;
+}
+
 export interface FileAttachment {
   path: string;
   fieldName?: string;
@@ -0,0 +1,112 @@
+/**
+ * Helpers for case fields beyond the basic routing ones: formatting dates,
+ * picking columns, and checking custom and plugin field values against
+ * the field definitions discovered from the instance
+ */
+import { FogBugzCustomField } from '../api/types';
+
+/**
+ * Built-in FogBugz column names follow Hungarian notation (sTitle, ixBug, hrsCurrEst, ...)
+ */
+const BUILT_IN_COLUMN = /^(ix|s|dt|hrs|dbl|f|c|n|i)[A-Z]\w*$|^(tags|events|latestEvent|operations)$/;
+
+/**
+ * Plugin fields are stored under their raw column names, e.g. plugin_customfields_at_fogcreek_com_seatsx12
+ */
+const PLUGIN_COLUMN = /^plugin_\w+$/;
+
+/**
+ * Parses a date argument and formats it the way FogBugz expects (ISO 8601 UTC, no milliseconds)
+ */
+export function toFogBugzDate(value: string | Date, argName: string): string {
+  const date = value instanceof Date ? value : new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date for ${argName}: "${value}"`);
+  }
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/**
+ * Whether a column name is a built-in FogBugz column rather than a custom field name
+ */
+export function isBuiltInColumn(name: string): boolean {
+  return BUILT_IN_COLUMN.test(name);
+}
+
+/**
+ * Whether a name is a raw plugin column name, usable without looking up the field definitions
+ */
+export function isPluginColumn(name: string): boolean {
+  return PLUGIN_COLUMN.test(name);
+}
+
+/**
+ * Finds a custom field by its column name or display name
+ */
+export function findCustomField(fields: FogBugzCustomField[], name: string): FogBugzCustomField | undefined {
+  const wanted = name.toLowerCase();
+  return fields.find(field => field.sFieldName.toLowerCase() === wanted) ||
+    fields.find(field => field.sDisplayName?.toLowerCase() === wanted);
+}
+
+/**
+ * Checks a value against a custom field's type and converts it to what FogBugz expects.
+ * Unknown field types are sent as text.
+ */
+export function toCustomFieldValue(field: FogBugzCustomField, value: any): string | number {
+  const label = field.sDisplayName || field.sFieldName;
+
+  switch ((field.sType || 'text').toLowerCase()) {
+    case 'number':
+    case 'integer':
+    case 'decimal': {
+      const number = typeof value === 'number' ? value : Number(String(value).trim());
+      if (value === '' || value === null || !Number.isFinite(number)) {
+        throw new Error(`${label} must be a number, got "${value}"`);
+      }
+      if (field.sType.toLowerCase() === 'integer' && !Number.isInteger(number)) {
+        throw new Error(`${label} must be a whole number, got "${value}"`);
+      }
+      return number;
+    }
+    case 'date':
+    case 'datetime':
+      return toFogBugzDate(value, label);
+    case 'checkbox':
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        throw new Error(`${label} must be true or false, got "${value}"`);
+      }
+      return value ? 1 : 0;
+    case 'choice':
+    case 'choices':
+    case 'dropdown':
+    case 'list': {
+      const choices = field.rgsChoices || [];
+      const match = choices.find(choice => choice.toLowerCase() === String(value).toLowerCase());
+      if (!match) {
+        throw new Error(`${label} must be one of ${choices.map(choice => `"${choice}"`).join(', ')}, got "${value}"`);
+      }
+      return match;
+    }
+    default:
+      if (typeof value === 'object' && value !== null) {
+        throw new Error(`${label} must be text`);
+      }
+      return String(value);
+  }
+}
+
+/**
+ * Picks the requested columns from a case, keyed by the names the caller asked for
+ */
+export function pickCaseFields(
+  bugCase: Record<string, any>,
+  columns: Array<{ name: string; column: string }>
+): Record<string, any> {
+  const picked: Record<string, any> = { id: bugCase.ixBug };
+  for (const { name, column } of columns) {
+    picked[name] = bugCase[column] ?? null;
+  }
+  return picked;
+}
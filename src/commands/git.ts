@@ -0,0 +1,88 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+/**
+ * Reading case references out of a local git history
+ */
+
+const execFileAsync = promisify(execFile);
+
+// Separators that can't appear in commit metadata
+const RECORD_SEPARATOR = '\x1e';
+const FIELD_SEPARATOR = '\x1f';
+
+/**
+ * Case references in commit messages, such as "Case 1234", "Case #1234",
+ * "case: 1234", "BugzID 1234" or "Bug #1234". With a ":" or "#" any keyword
+ * counts; without one "BugzID" always does, but "Case", "Bug" and "FogBugz"
+ * only count when the number ends the phrase, so plain English like
+ * "the case 2 items are equal" doesn't.
+ */
+const CASE_REFERENCE =
+  /\b(?:(?:case|bugzid|bug|fogbugz)(?:\s*id)?\s*(?::\s*#?|#)\s*(\d+)\b|bugzid\s+(\d+)\b|(?:case|bug|fogbugz)\s+(\d+)(?=[ \t]*(?:[.,;:!?)\]]|$)))/gim;
+
+export interface GitCommit {
+  hash: string;
+  parents: string[];
+  author: string;
+  date: string;
+  message: string;
+  files: string[];
+}
+
+export interface GitLogOptions {
+  since?: string;
+  maxCount?: number;
+  branch?: string;
+}
+
+/**
+ * Finds the distinct case IDs referenced in a commit message
+ */
+export function findCaseReferences(message: string): number[] {
+  const ids = new Set<number>();
+  for (const match of message.matchAll(CASE_REFERENCE)) {
+    ids.add(Number(match[1] ?? match[2] ?? match[3]));
+  }
+  return [...ids];
+}
+
+/**
+ * Parses the output of `git log` run with the format used by readGitLog
+ */
+export function parseGitLog(output: string): GitCommit[] {
+  return output
+    .split(RECORD_SEPARATOR)
+    .filter(record => record.trim().length > 0)
+    .map(record => {
+      const [hash, parents, author, date, message, fileList = ''] = record.split(FIELD_SEPARATOR);
+      return {
+        hash: hash.trim(),
+        parents: parents.split(' ').filter(Boolean),
+        author,
+        date,
+        message: message.trim(),
+        files: fileList.split('\n').map(file => file.trim()).filter(Boolean),
+      };
+    });
+}
+
+/**
+ * Reads commits, with the files each one changed, from a local repository
+ */
+export async function readGitLog(repositoryPath: string, options: GitLogOptions = {}): Promise<GitCommit[]> {
+  const format = [RECORD_SEPARATOR + '%H', '%P', '%an', '%aI', '%B', ''].join(FIELD_SEPARATOR);
+  const args = ['-C', repositoryPath, 'log', `--format=${format}`, '--name-only', '--no-renames'];
+  if (options.since) args.push(`--since=${options.since}`);
+  if (options.maxCount) args.push(`--max-count=${options.maxCount}`);
+  if (options.branch) {
+    // git would read a leading dash as an option, such as --output=<file>
+    if (options.branch.startsWith('-')) {
+      throw new Error(`Invalid branch "${options.branch}": branch names can't start with "-"`);
+    }
+    args.push(options.branch);
+  }
+
+  const { stdout } = await execFileAsync('git', args, { maxBuffer: 64 * 1024 * 1024 });
+  return parseGitLog(stdout);
+}
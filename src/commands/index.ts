@@ -1,10 +1,206 @@
 import { FogBugzApi } from '../api';
-import { FileAttachment, CreateCaseParams, EditCaseParams, CreateProjectParams } from '../api/types';
+import {
+  FileAttachment,
+  CreateCaseParams,
+  EditCaseParams,
+  CreateProjectParams,
+  EditProjectParams,
+  CreateAreaParams,
+  FogBugzSnippet,
+  FogBugzMailbox,
+  ResolveCaseParams,
+  EmailCaseParams,
+  FogBugzStatus,
+  FogBugzCategory,
+  FogBugzEvent,
+  FogBugzCase,
+  FogBugzInterval,
+  FogBugzPerson,
+  FogBugzProject,
+  FogBugzArea,
+  FogBugzFixFor,
+  CreateMilestoneParams,
+  EditMilestoneParams,
+  FogBugzArticle,
+  CreateArticleParams,
+  EditArticleParams,
+  CreateTemplateParams,
+  EditTemplateParams,
+  FogBugzDiscussPost,
+  ListDiscussionParams,
+  ScoutReportParams,
+  FogBugzCheckin,
+  FogBugzProjectPercentTime,
+  FogBugzFilter,
+  CreatePersonParams,
+  EditPersonParams,
+  FogBugzCustomField,
+} from '../api/types';
+import { createTwoFilesPatch } from 'diff';
+import { htmlToMarkdown, markdownToHtml } from './markdown';
+import { buildScoutDescription } from './scout';
+import { expandSnippet, needsUserDetails, ExpandedSnippet } from './snippets';
+import {
+  resolveProject,
+  resolveArea,
+  resolveMilestone,
+  resolvePerson,
+  resolvePriority,
+  ResolveOptions,
+} from './resolver';
+import { toFogBugzDate, isBuiltInColumn, isPluginColumn, findCustomField, toCustomFieldValue, pickCaseFields } from './fields';
+import { readGitLog, findCaseReferences } from './git';
+import { renderReleaseNotes, ReleaseNoteGroup, ReleaseNotesFormat } from './release-notes';
 
 /**
  * MCP command implementations for FogBugz operations
  */
 
+/**
+ * Finds a category by ID, name or plural name
+ */
+function findCategory(categories: FogBugzCategory[], nameOrId: string | number): FogBugzCategory | undefined {
+  if (!isNaN(Number(nameOrId))) {
+    return categories.find(category => category.ixCategory === Number(nameOrId));
+  }
+  const wanted = String(nameOrId).toLowerCase();
+  return categories.find(category =>
+    category.sCategory.toLowerCase() === wanted ||
+    category.sPlural?.toLowerCase() === wanted
+  );
+}
+
+/**
+ * Resolves a category argument to its ID, failing if it doesn't exist
+ */
+async function resolveCategoryId(api: FogBugzApi, nameOrId: string | number): Promise<number> {
+  const categories = await api.listCategories();
+  const category = findCategory(categories, nameOrId);
+  if (!category) {
+    throw new Error(
+      `No category found matching "${nameOrId}"; available categories: ${categories.map(candidate => candidate.sCategory).join(', ')}`
+    );
+  }
+  return category.ixCategory;
+}
+
+/**
+ * Loads the custom field definitions needed for the given names. When the instance can't
+ * list them but every name is a raw plugin column, undefined is returned so the columns
+ * can still be used as given, just without checking them.
+ */
+async function loadCustomFields(api: FogBugzApi, names: string[]): Promise<FogBugzCustomField[] | undefined> {
+  try {
+    return await api.listCustomFields();
+  } catch (error: any) {
+    if (error?.lookupUnavailable && names.every(isPluginColumn)) return undefined;
+    throw error;
+  }
+}
+
+/**
+ * Maps requested field names to search columns. Built-in columns are used as given;
+ * anything else is looked up among the instance's custom fields by name.
+ */
+async function resolveFieldColumns(
+  api: FogBugzApi,
+  fields: string[]
+): Promise<Array<{ name: string; column: string }>> {
+  const customNames = fields.filter(name => !isBuiltInColumn(name));
+  const customFields = customNames.length > 0 ? await loadCustomFields(api, customNames) : [];
+
+  return fields.map(name => {
+    if (isBuiltInColumn(name) || !customFields) return { name, column: name };
+    const field = findCustomField(customFields, name);
+    if (!field) {
+      throw new Error(
+        `Unknown field "${name}"; custom fields on this instance: ` +
+        (customFields.map(candidate => candidate.sDisplayName || candidate.sFieldName).join(', ') || 'none')
+      );
+    }
+    return { name, column: field.sFieldName };
+  });
+}
+
+/**
+ * Adds due date, estimate, story points and custom field values from tool arguments
+ * to case parameters, checking each against its type first
+ */
+async function applyCaseFields(
+  api: FogBugzApi,
+  params: CreateCaseParams | EditCaseParams,
+  args: any
+): Promise<void> {
+  const { dueDate, estimateHours, storyPoints, customFields } = args;
+
+  if (dueDate !== undefined) params.dtDue = toFogBugzDate(dueDate, 'dueDate');
+  if (estimateHours !== undefined) {
+    if (typeof estimateHours !== 'number' || estimateHours < 0) {
+      throw new Error('estimateHours must be a non-negative number');
+    }
+    params.hrsCurrEst = estimateHours;
+  }
+  if (storyPoints !== undefined) {
+    if (typeof storyPoints !== 'number' || storyPoints < 0) {
+      throw new Error('storyPoints must be a non-negative number');
+    }
+    params.dblStoryPts = storyPoints;
+  }
+
+  if (customFields && Object.keys(customFields).length > 0) {
+    const definitions = await loadCustomFields(api, Object.keys(customFields));
+    for (const [name, value] of Object.entries(customFields)) {
+      if (!definitions) {
+        // Without the definitions the plugin column gets the value unchecked
+        params[name] = value;
+        continue;
+      }
+      const field = findCustomField(definitions, name);
+      if (!field) {
+        throw new Error(
+          `Unknown custom field "${name}"; available: ` +
+          (definitions.map(candidate => candidate.sDisplayName || candidate.sFieldName).join(', ') || 'none')
+        );
+      }
+      params[field.sFieldName] = toCustomFieldValue(field, value);
+    }
+  }
+}
+
+/**
+ * Resolves project, area, milestone, assignee and priority arguments to IDs. The area and
+ * milestone are looked up within the project given, or the case's current project when
+ * updating, so a name shared by several projects picks the right one.
+ */
+async function applyCaseRouting(
+  api: FogBugzApi,
+  params: CreateCaseParams | EditCaseParams,
+  args: any,
+  caseId?: number
+): Promise<void> {
+  const { project, area, milestone, assignee, priority } = args;
+
+  let projectId: number | undefined;
+  if (project) {
+    projectId = await resolveProjectId(api, project);
+    params.ixProject = projectId;
+  } else if (caseId !== undefined && (area || milestone)) {
+    projectId = (await api.viewCase(caseId, false, ['ixProject'])).ixProject;
+  }
+
+  if (area) {
+    const match = await resolveArea(api, area, projectId);
+    params.ixArea = match.ixArea;
+    if (projectId === undefined) {
+      projectId = match.ixProject;
+      params.ixProject = projectId;
+    }
+  }
+  if (milestone) params.ixFixFor = (await resolveMilestone(api, milestone, projectId, false)).ixFixFor;
+  if (assignee) params.ixPersonAssignedTo = await resolvePersonId(api, assignee);
+  if (priority !== undefined) params.ixPriority = (await resolvePriority(api, priority)).ixPriority;
+}
+
 /**
  * Creates a new FogBugz case
  */
@@ -13,10 +209,9 @@ export async function createCase(api: FogBugzApi, args: any): Promise<string> {
     title,
     description,
     project,
-    area,
-    milestone,
-    priority,
     assignee,
+    parentCaseId,
+    category,
     attachmentPath,
   } = args;
 
@@ -27,19 +222,7 @@ export async function createCase(api: FogBugzApi, args: any): Promise<string> {
 
   // Add optional parameters if provided
   if (description) params.sEvent = description;
-  if (project) params.sProject = project;
-  if (area) params.sArea = area;
-  if (milestone) params.sFixFor = milestone;
-  if (assignee) params.sPersonAssignedTo = assignee;
-
-  // Handle priority (could be a number or string)
-  if (priority !== undefined) {
-    if (typeof priority === 'number') {
-      params.ixPriority = priority;
-    } else {
-      params.sPriority = priority;
-    }
-  }
+  if (parentCaseId) params.ixBugParent = parentCaseId;
 
   // Prepare attachments if any
   const attachments: FileAttachment[] = [];
@@ -51,6 +234,11 @@ export async function createCase(api: FogBugzApi, args: any): Promise<string> {
   }
 
   try {
+    // Look up IDs for the names given, since FogBugz falls back to defaults for names it doesn't know
+    await applyCaseRouting(api, params, args);
+    if (category !== undefined) params.ixCategory = await resolveCategoryId(api, category);
+    await applyCaseFields(api, params, args);
+
     // Create the case
     const newCase = await api.createCase(params, attachments);
     
@@ -59,15 +247,56 @@ export async function createCase(api: FogBugzApi, args: any): Promise<string> {
     return JSON.stringify({
       caseId: newCase.ixBug,
       caseLink,
-      message: `Created case #${newCase.ixBug}: "${title}"${project ? ' in ' + project : ''}${assignee ? ', assigned to ' + assignee : ''}.`,
+      message: `Created case #${newCase.ixBug}: "${title}"${parentCaseId ? ' as a subcase of #' + parentCaseId : ''}${project ? ' in ' + project : ''}${assignee ? ', assigned to ' + assignee : ''}.`,
     });
   } catch (error: any) {
     return JSON.stringify({
       error: error.message,
+      candidates: error.candidates,
     });
   }
 }
 
+/**
+ * Finds a snippet by ID or name
+ */
+function findSnippet(snippets: FogBugzSnippet[], nameOrId: string | number): FogBugzSnippet {
+  const snippet = !isNaN(Number(nameOrId))
+    ? snippets.find(candidate => candidate.ixSnippet === Number(nameOrId))
+    : snippets.find(candidate => candidate.sName.toLowerCase() === String(nameOrId).toLowerCase());
+  if (!snippet) {
+    throw new Error(`No snippet found matching "${nameOrId}"`);
+  }
+  return snippet;
+}
+
+/**
+ * Expands a snippet for a case, filling its placeholders from the case and, if needed, the current user
+ */
+async function expandSnippetForCase(api: FogBugzApi, caseId: number, nameOrId: string | number): Promise<ExpandedSnippet> {
+  const snippet = findSnippet(await api.listSnippets(), nameOrId);
+  const bugCase = await api.viewCase(caseId);
+  const user = needsUserDetails(snippet.s) ? await api.getCurrentUser() : undefined;
+
+  return expandSnippet(snippet.s, {
+    caseId: bugCase.ixBug,
+    title: bugCase.sTitle,
+    customerEmail: bugCase.sCustomerEmail,
+    ticket: bugCase.sTicket,
+    ticketUrl: bugCase.sTicket ? api.getTicketLink(bugCase.sTicket) : undefined,
+    userName: user?.sFullName || user?.sPerson,
+    userEmail: user?.sEmail,
+  });
+}
+
+/**
+ * Combines free text with an expanded snippet, the text first
+ */
+function withSnippet(text: string | undefined, expanded: ExpandedSnippet | undefined): string | undefined {
+  if (!expanded) return text;
+  return [text, expanded.text].filter(Boolean).join('\n\n');
+}
+
 /**
  * Updates an existing FogBugz case
  */
@@ -76,11 +305,10 @@ export async function updateCase(api: FogBugzApi, args: any): Promise<string> {
     caseId,
     title,
     description,
-    project,
-    area,
-    milestone,
-    priority,
+    category,
+    elapsedHours,
     attachmentPath,
+    snippet,
   } = args;
 
   // Prepare case parameters
@@ -91,18 +319,6 @@ export async function updateCase(api: FogBugzApi, args: any): Promise<string> {
   // Add optional parameters if provided
   if (title) params.sTitle = title;
   if (description) params.sEvent = description;
-  if (project) params.sProject = project;
-  if (area) params.sArea = area;
-  if (milestone) params.sFixFor = milestone;
-
-  // Handle priority (could be a number or string)
-  if (priority !== undefined) {
-    if (typeof priority === 'number') {
-      params.ixPriority = priority;
-    } else {
-      params.sPriority = priority;
-    }
-  }
 
   // Prepare attachments if any
   const attachments: FileAttachment[] = [];
@@ -114,15 +330,2721 @@ export async function updateCase(api: FogBugzApi, args: any): Promise<string> {
   }
 
   try {
-    // Update the case
-    const updatedCase = await api.updateCase(params, attachments);
-    
+    // Look up IDs for the names given, since FogBugz falls back to defaults for names it doesn't know
+    await applyCaseRouting(api, params, args, caseId);
+    if (category !== undefined) params.ixCategory = await resolveCategoryId(api, category);
+    await applyCaseFields(api, params, args);
+
+    // FogBugz adds hrsElapsedExtra to the hours logged on the timesheet, so set that to reach the total asked for
+    if (elapsedHours !== undefined) {
+      const current = await api.viewCase(caseId, false, ['hrsElapsed', 'hrsElapsedExtra']);
+      const loggedHours = (current.hrsElapsed || 0) - (current.hrsElapsedExtra || 0);
+      if (typeof elapsedHours !== 'number' || elapsedHours < loggedHours) {
+        throw new Error(`elapsedHours must be a number no less than the ${roundHours(loggedHours)}h logged on the timesheet`);
+      }
+      params.hrsElapsedExtra = elapsedHours - loggedHours;
+    }
+
+    // Expand the snippet into the comment
+    const expanded = snippet !== undefined ? await expandSnippetForCase(api, caseId, snippet) : undefined;
+    if (expanded) params.sEvent = withSnippet(description, expanded);
+
+    // Update the case
+    const updatedCase = await api.updateCase(params, attachments);
+    
+    // Generate a response
+    const caseLink = api.getCaseLink(updatedCase.ixBug);
+    return JSON.stringify({
+      caseId: updatedCase.ixBug,
+      caseLink,
+      unresolvedPlaceholders: expanded?.unresolved,
+      message: `Updated case #${updatedCase.ixBug}${title ? ': "' + title + '"' : ''}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+      candidates: error.candidates,
+    });
+  }
+}
+
+/**
+ * Assigns a FogBugz case to a user
+ */
+export async function assignCase(api: FogBugzApi, args: any): Promise<string> {
+  const { caseId, assignee } = args;
+
+  try {
+    // Assign the case by ID, so a misspelled name can't fall back to the default assignee
+    const person = await resolvePerson(api, assignee);
+    const updatedCase = await api.assignCase(caseId, person.ixPerson);
+    
+    // Generate a response
+    const caseLink = api.getCaseLink(updatedCase.ixBug);
+    return JSON.stringify({
+      caseId: updatedCase.ixBug,
+      caseLink,
+      message: `Assigned case #${updatedCase.ixBug} to ${person.sFullName || assignee}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+      candidates: error.candidates,
+    });
+  }
+}
+
+/**
+ * Normalizes a status name for comparison, so "Won't Fix", "won’t fix" and
+ * "Resolved (Won't Fix)" all compare equal
+ */
+function normalizeStatusName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[\u2018\u2019`]/g, "'")
+    .replace(/^resolved\s*\((.*)\)$/, '$1')
+    .trim();
+}
+
+/**
+ * Finds the resolved status matching a name among the statuses of a category
+ */
+function findResolvedStatus(statuses: FogBugzStatus[], name: string): FogBugzStatus | undefined {
+  const wanted = normalizeStatusName(name);
+  return statuses.find(status => normalizeStatusName(status.sStatus) === wanted);
+}
+
+/**
+ * Resolves a FogBugz case with a resolution status given by name
+ */
+export async function resolveCase(api: FogBugzApi, args: any): Promise<string> {
+  const { caseId, resolution, comment, duplicateOf } = args;
+
+  try {
+    const params: ResolveCaseParams = {
+      ixBug: caseId,
+    };
+
+    if (comment) params.sEvent = comment;
+    if (duplicateOf) params.ixBugOriginal = duplicateOf;
+
+    // Statuses are per category, so look up the case's category first
+    if (resolution || duplicateOf) {
+      const caseData = await api.viewCase(caseId);
+      const statuses = (await api.listStatuses(caseData.ixCategory, true))
+        .filter(status => status.fResolved && !status.fDeleted);
+
+      const status = resolution
+        ? findResolvedStatus(statuses, resolution)
+        : statuses.find(candidate => candidate.fDuplicate);
+
+      if (!status) {
+        return JSON.stringify({
+          error: `No resolved status named "${resolution || 'Duplicate'}" in category "${caseData.sCategory || caseData.ixCategory}"`,
+          availableStatuses: statuses.map(candidate => candidate.sStatus),
+        });
+      }
+
+      params.ixStatus = status.ixStatus;
+    }
+
+    // Resolve the case
+    const resolvedCase = await api.resolveCase(params);
+
+    // Generate a response
+    const caseLink = api.getCaseLink(resolvedCase.ixBug);
+    return JSON.stringify({
+      caseId: resolvedCase.ixBug,
+      caseLink,
+      message: `Resolved case #${resolvedCase.ixBug}${resolution ? ' as ' + resolution : ''}${duplicateOf ? ' (duplicate of #' + duplicateOf + ')' : ''}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Closes a resolved FogBugz case
+ */
+export async function closeCase(api: FogBugzApi, args: any): Promise<string> {
+  const { caseId, comment } = args;
+
+  try {
+    // Close the case
+    const closedCase = await api.closeCase(caseId, comment);
+
+    // Generate a response
+    const caseLink = api.getCaseLink(closedCase.ixBug);
+    return JSON.stringify({
+      caseId: closedCase.ixBug,
+      caseLink,
+      message: `Closed case #${closedCase.ixBug}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Reopens a closed FogBugz case, or reactivates it if it is only resolved
+ */
+export async function reopenCase(api: FogBugzApi, args: any): Promise<string> {
+  const { caseId, comment } = args;
+
+  try {
+    // FogBugz uses "reopen" for closed cases and "reactivate" for resolved ones
+    const caseData = await api.viewCase(caseId);
+    const reopenedCase = caseData.fOpen === false
+      ? await api.reopenCase(caseId, comment)
+      : await api.reactivateCase(caseId, comment);
+
+    // Generate a response
+    const caseLink = api.getCaseLink(reopenedCase.ixBug);
+    return JSON.stringify({
+      caseId: reopenedCase.ixBug,
+      caseLink,
+      message: `${caseData.fOpen === false ? 'Reopened' : 'Reactivated'} case #${reopenedCase.ixBug}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Sends correspondence from a case using the email, reply or forward command
+ */
+async function sendCaseCorrespondence(
+  api: FogBugzApi,
+  args: any,
+  kind: 'email' | 'reply' | 'forward'
+): Promise<string> {
+  const {
+    caseId,
+    to,
+    from,
+    cc,
+    bcc,
+    subject,
+    body,
+    attachmentEventId,
+    attachmentPaths,
+    snippet,
+    allowUnresolvedPlaceholders,
+  } = args;
+
+  // Prepare email parameters
+  const params: EmailCaseParams = {
+    ixBug: caseId,
+    sTo: to,
+    sEvent: body,
+  };
+
+  // Add optional parameters if provided
+  if (from) params.sFrom = from;
+  if (cc) params.sCC = cc;
+  if (bcc) params.sBCC = bcc;
+  if (subject) params.sSubject = subject;
+  if (attachmentEventId) params.ixBugEventAttachment = attachmentEventId;
+
+  // Prepare attachments if any
+  const attachments: FileAttachment[] = (attachmentPaths || []).map((path: string, i: number) => ({
+    path,
+    fieldName: `File${i + 1}`,
+  }));
+
+  try {
+    // Expand the snippet into the message
+    const expanded = snippet !== undefined ? await expandSnippetForCase(api, caseId, snippet) : undefined;
+    const text = withSnippet(body, expanded);
+    if (!text) {
+      throw new Error('Either body or snippet is required');
+    }
+    // The customer would see the raw markers, so don't send unless asked to
+    if (expanded && expanded.unresolved.length > 0 && !allowUnresolvedPlaceholders) {
+      throw new Error(
+        `Snippet placeholders could not be filled in: ${expanded.unresolved.join(', ')}. ` +
+        'Edit the message, or set allowUnresolvedPlaceholders to send it anyway'
+      );
+    }
+    params.sEvent = text;
+
+    // Send the email
+    const send = {
+      email: () => api.emailCase(params, attachments),
+      reply: () => api.replyToCase(params, attachments),
+      forward: () => api.forwardCase(params, attachments),
+    }[kind];
+    const updatedCase = await send();
+
+    // Generate a response
+    const caseLink = api.getCaseLink(updatedCase.ixBug);
+    const verb = { email: 'Sent email', reply: 'Sent reply', forward: 'Forwarded case' }[kind];
+    return JSON.stringify({
+      caseId: updatedCase.ixBug,
+      caseLink,
+      unresolvedPlaceholders: expanded?.unresolved,
+      message: `${verb} from case #${updatedCase.ixBug} to ${to}${cc ? ' (cc ' + cc + ')' : ''}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Sends a new email from a FogBugz case
+ */
+export async function emailCase(api: FogBugzApi, args: any): Promise<string> {
+  return sendCaseCorrespondence(api, args, 'email');
+}
+
+/**
+ * Replies to the correspondent on a FogBugz case
+ */
+export async function replyToCase(api: FogBugzApi, args: any): Promise<string> {
+  return sendCaseCorrespondence(api, args, 'reply');
+}
+
+/**
+ * Forwards a FogBugz case by email
+ */
+export async function forwardCase(api: FogBugzApi, args: any): Promise<string> {
+  return sendCaseCorrespondence(api, args, 'forward');
+}
+
+/**
+ * Columns needed to walk and summarize a case hierarchy
+ */
+const CASE_TREE_COLS = [
+  'ixBug',
+  'sTitle',
+  'sStatus',
+  'fOpen',
+  'sPersonAssignedTo',
+  'ixBugParent',
+  'ixBugChildren',
+];
+
+/**
+ * Upper bound on the number of cases loaded for one tree, to keep runaway hierarchies in check
+ */
+const MAX_TREE_CASES = 500;
+
+/**
+ * Reads the child case IDs from a case, which FogBugz may return as an array or a comma-separated string
+ */
+function getChildCaseIds(bugCase: FogBugzCase): number[] {
+  const children = bugCase.ixBugChildren;
+  if (!children) return [];
+  const ids = Array.isArray(children) ? children : children.split(',');
+  return ids.map(id => Number(id)).filter(id => id > 0);
+}
+
+/**
+ * Whether a case counts as finished for status rollups
+ */
+function isCaseDone(bugCase: FogBugzCase): boolean {
+  return bugCase.fOpen === false || /^(resolved|closed)/i.test(bugCase.sStatus || '');
+}
+
+/**
+ * Loads cases by ID with the columns needed for hierarchy operations
+ */
+async function loadTreeCases(api: FogBugzApi, ids: number[]): Promise<FogBugzCase[]> {
+  if (ids.length === 0) return [];
+  return api.searchCases({
+    q: ids.join(','),
+    cols: CASE_TREE_COLS,
+    max: ids.length,
+  });
+}
+
+/**
+ * Moves a FogBugz case under a new parent, or detaches it from its parent
+ */
+export async function setParentCase(api: FogBugzApi, args: any): Promise<string> {
+  const { caseId, parentCaseId } = args;
+
+  try {
+    // Refuse to make a case a subcase of itself or of one of its own descendants
+    if (parentCaseId) {
+      const seen = new Set<number>();
+      let ancestorId: number | undefined = parentCaseId;
+      while (ancestorId && !seen.has(ancestorId)) {
+        if (ancestorId === caseId) {
+          return JSON.stringify({
+            error: `Case #${parentCaseId} is case #${caseId} or one of its subcases, so it cannot be its parent`,
+          });
+        }
+        seen.add(ancestorId);
+        const [ancestor] = await loadTreeCases(api, [ancestorId]);
+        ancestorId = ancestor?.ixBugParent;
+      }
+    }
+
+    // FogBugz treats a parent of 0 as "no parent"
+    const updatedCase = await api.updateCase({
+      ixBug: caseId,
+      ixBugParent: parentCaseId || 0,
+    });
+
+    // Generate a response
+    const caseLink = api.getCaseLink(updatedCase.ixBug);
+    return JSON.stringify({
+      caseId: updatedCase.ixBug,
+      parentCaseId: parentCaseId || null,
+      caseLink,
+      message: parentCaseId
+        ? `Moved case #${updatedCase.ixBug} under parent case #${parentCaseId}.`
+        : `Detached case #${updatedCase.ixBug} from its parent case.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Shows the full parent/subcase tree around a FogBugz case as an indented outline
+ */
+export async function viewCaseTree(api: FogBugzApi, args: any): Promise<string> {
+  const { caseId } = args;
+
+  try {
+    const casesById = new Map<number, FogBugzCase>();
+
+    // Walk up to the top-most ancestor
+    let rootId = caseId;
+    let [current] = await loadTreeCases(api, [caseId]);
+    if (!current) {
+      throw new Error(`Case #${caseId} not found`);
+    }
+    casesById.set(current.ixBug, current);
+    while (current.ixBugParent && !casesById.has(current.ixBugParent)) {
+      const [parent] = await loadTreeCases(api, [current.ixBugParent]);
+      if (!parent) break;
+      casesById.set(parent.ixBug, parent);
+      rootId = parent.ixBug;
+      current = parent;
+    }
+
+    // Load descendants one level at a time
+    const expanded = new Set<number>();
+    let level = [rootId];
+    while (level.length > 0 && casesById.size < MAX_TREE_CASES) {
+      level.forEach(id => expanded.add(id));
+      const childIds = level.flatMap(id => getChildCaseIds(casesById.get(id)!));
+      const toLoad = childIds.filter(id => !casesById.has(id)).slice(0, MAX_TREE_CASES - casesById.size);
+      const loaded = await loadTreeCases(api, toLoad);
+      loaded.forEach(bugCase => casesById.set(bugCase.ixBug, bugCase));
+      level = childIds.filter(id => casesById.has(id) && !expanded.has(id));
+    }
+
+    // Render the outline depth-first, rolling up subcase status counts
+    const lines: string[] = [];
+    const visited = new Set<number>();
+    const render = (id: number, depth: number): { total: number; done: number } => {
+      const bugCase = casesById.get(id);
+      if (!bugCase || visited.has(id)) return { total: 0, done: 0 };
+      visited.add(id);
+
+      const lineIndex = lines.length;
+      lines.push('');
+
+      const rollup = { total: 0, done: 0 };
+      for (const childId of getChildCaseIds(bugCase)) {
+        const child = casesById.get(childId);
+        if (!child) continue;
+        const childRollup = render(childId, depth + 1);
+        rollup.total += 1 + childRollup.total;
+        rollup.done += (isCaseDone(child) ? 1 : 0) + childRollup.done;
+      }
+
+      const marker = id === caseId ? ' <==' : '';
+      const summary = rollup.total > 0 ? ` (${rollup.done}/${rollup.total} subcases done)` : '';
+      const assignee = bugCase.sPersonAssignedTo ? ` - ${bugCase.sPersonAssignedTo}` : '';
+      lines[lineIndex] = `${'  '.repeat(depth)}#${bugCase.ixBug} [${bugCase.sStatus}] ${bugCase.sTitle}${assignee}${summary}${marker}`;
+      return rollup;
+    };
+    const rootRollup = render(rootId, 0);
+
+    // Generate a response
+    return JSON.stringify({
+      caseId,
+      rootCaseId: rootId,
+      totalSubcases: rootRollup.total,
+      doneSubcases: rootRollup.done,
+      truncated: casesById.size >= MAX_TREE_CASES,
+      outline: lines.join('\n'),
+      message: `Case tree for #${caseId} rooted at #${rootId}: ${rootRollup.done}/${rootRollup.total} subcases done.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Reads the tag names from a case, which FogBugz may return as strings or as { tag } objects
+ */
+function getCaseTags(bugCase: FogBugzCase): string[] {
+  return (bugCase.tags || []).map(tag => (typeof tag === 'string' ? tag : tag.tag));
+}
+
+/**
+ * Applies a tag change to a case, merging with the tags it already has
+ */
+async function changeCaseTags(
+  api: FogBugzApi,
+  args: any,
+  mode: 'add' | 'remove' | 'replace'
+): Promise<string> {
+  const { caseId, tags } = args;
+
+  try {
+    const requested: string[] = (tags || []).map((tag: string) => tag.trim()).filter(Boolean);
+
+    // FogBugz replaces the whole tag list on edit, so start from the current tags
+    const currentTags = mode === 'replace' ? [] : getCaseTags(await api.viewCase(caseId));
+    const lowered = (list: string[]) => new Set(list.map(tag => tag.toLowerCase()));
+
+    let newTags: string[];
+    if (mode === 'remove') {
+      const toRemove = lowered(requested);
+      newTags = currentTags.filter(tag => !toRemove.has(tag.toLowerCase()));
+    } else {
+      const existing = lowered(currentTags);
+      newTags = [...currentTags];
+      for (const tag of requested) {
+        if (!existing.has(tag.toLowerCase())) {
+          existing.add(tag.toLowerCase());
+          newTags.push(tag);
+        }
+      }
+    }
+
+    // Update the case
+    const updatedCase = await api.updateCase({
+      ixBug: caseId,
+      sTags: newTags.join(','),
+    });
+
+    // Generate a response
+    const caseLink = api.getCaseLink(updatedCase.ixBug);
+    return JSON.stringify({
+      caseId: updatedCase.ixBug,
+      tags: newTags,
+      caseLink,
+      message: `Case #${updatedCase.ixBug} is now tagged: ${newTags.length > 0 ? newTags.join(', ') : '(no tags)'}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Adds tags to a FogBugz case, keeping its existing tags
+ */
+export async function addCaseTags(api: FogBugzApi, args: any): Promise<string> {
+  return changeCaseTags(api, args, 'add');
+}
+
+/**
+ * Removes tags from a FogBugz case, keeping its other tags
+ */
+export async function removeCaseTags(api: FogBugzApi, args: any): Promise<string> {
+  return changeCaseTags(api, args, 'remove');
+}
+
+/**
+ * Replaces all tags on a FogBugz case
+ */
+export async function replaceCaseTags(api: FogBugzApi, args: any): Promise<string> {
+  return changeCaseTags(api, args, 'replace');
+}
+
+/**
+ * Lists FogBugz tags with their usage counts
+ */
+export async function listTags(api: FogBugzApi, args: any): Promise<string> {
+  try {
+    const tags = await api.listTags();
+
+    // Format tag information, most used first
+    const formattedTags = tags
+      .map(tag => ({
+        id: tag.ixTag,
+        name: tag.sTag,
+        uses: tag.cTagUses || 0,
+      }))
+      .sort((a, b) => b.uses - a.uses);
+
+    // Generate a response
+    return JSON.stringify({
+      count: formattedTags.length,
+      tags: formattedTags,
+      message: `Found ${formattedTags.length} tags.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Hours covered by an interval; an interval without an end is still running
+ */
+function getIntervalHours(interval: FogBugzInterval, now: Date = new Date()): number {
+  const start = new Date(interval.dtStart).getTime();
+  const end = interval.dtEnd ? new Date(interval.dtEnd).getTime() : now.getTime();
+  return Math.max(0, end - start) / 3600000;
+}
+
+/**
+ * Rounds hours to two decimal places for display
+ */
+function roundHours(hours: number): number {
+  return Math.round(hours * 100) / 100;
+}
+
+/**
+ * Starts the work timer on a FogBugz case
+ */
+export async function startWork(api: FogBugzApi, args: any): Promise<string> {
+  const { caseId } = args;
+
+  try {
+    // Start the timer (FogBugz stops any timer already running)
+    await api.startWork(caseId);
+
+    // Generate a response
+    return JSON.stringify({
+      caseId,
+      caseLink: api.getCaseLink(caseId),
+      message: `Started working on case #${caseId}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Stops the FogBugz work timer
+ */
+export async function stopWork(api: FogBugzApi, args: any): Promise<string> {
+  try {
+    // Stop the timer
+    await api.stopWork();
+
+    // Generate a response
+    return JSON.stringify({
+      message: 'Stopped the work timer.',
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Logs a past time interval against a FogBugz case
+ */
+export async function logTime(api: FogBugzApi, args: any): Promise<string> {
+  const { caseId, start, end, hours } = args;
+
+  try {
+    // Work out the interval from an explicit end or a duration
+    const dtStart = toFogBugzDate(start, 'start');
+    let dtEnd: string;
+    if (end) {
+      dtEnd = toFogBugzDate(end, 'end');
+    } else if (hours) {
+      dtEnd = toFogBugzDate(new Date(new Date(dtStart).getTime() + hours * 3600000), 'hours');
+    } else {
+      throw new Error('Either end or hours is required');
+    }
+    if (dtEnd <= dtStart) {
+      throw new Error('The interval must end after it starts');
+    }
+
+    // Record the interval
+    const interval = await api.createInterval(caseId, dtStart, dtEnd);
+    const loggedHours = roundHours(getIntervalHours({ ...interval, dtStart, dtEnd }));
+
+    // Generate a response
+    return JSON.stringify({
+      caseId,
+      intervalId: interval.ixInterval,
+      start: dtStart,
+      end: dtEnd,
+      hours: loggedHours,
+      caseLink: api.getCaseLink(caseId),
+      message: `Logged ${loggedHours}h on case #${caseId} from ${dtStart} to ${dtEnd}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Summarizes time intervals for a date range, per case, project and day
+ */
+export async function getTimesheet(api: FogBugzApi, args: any): Promise<string> {
+  const { start, end, person } = args;
+
+  try {
+    const dtStart = toFogBugzDate(start, 'start');
+    const dtEnd = toFogBugzDate(end || new Date(), 'end');
+
+    // Resolve the person, defaulting to the current user
+    let personId: number | undefined;
+    let personName = 'current user';
+    if (person) {
+      const match = await resolvePerson(api, person, false, { fuzzy: true });
+      personId = match.ixPerson;
+      personName = match.sFullName || match.sPerson || match.sEmail;
+    }
+
+    const intervals = await api.listIntervals({ ixPerson: personId, dtStart, dtEnd });
+
+    // Look up projects for the cases worked on
+    const caseIds = [...new Set(intervals.map(interval => interval.ixBug))];
+    const cases = caseIds.length > 0
+      ? await api.searchCases({ q: caseIds.join(','), cols: ['ixBug', 'sTitle', 'sProject'], max: caseIds.length })
+      : [];
+    const casesById = new Map(cases.map(bugCase => [bugCase.ixBug, bugCase]));
+
+    // Aggregate hours; days are UTC calendar days of the interval start
+    const now = new Date();
+    const byCase = new Map<number, { id: number; title?: string; project?: string; hours: number }>();
+    const byProject = new Map<string, number>();
+    const byDay = new Map<string, number>();
+    let totalHours = 0;
+
+    for (const interval of intervals) {
+      const hours = getIntervalHours(interval, now);
+      const bugCase = casesById.get(interval.ixBug);
+      const project = bugCase?.sProject || '(unknown)';
+      const day = interval.dtStart.slice(0, 10);
+
+      const caseEntry = byCase.get(interval.ixBug) || {
+        id: interval.ixBug,
+        title: bugCase?.sTitle || interval.sTitle,
+        project: bugCase?.sProject,
+        hours: 0,
+      };
+      caseEntry.hours += hours;
+      byCase.set(interval.ixBug, caseEntry);
+      byProject.set(project, (byProject.get(project) || 0) + hours);
+      byDay.set(day, (byDay.get(day) || 0) + hours);
+      totalHours += hours;
+    }
+
+    // Generate a response
+    return JSON.stringify({
+      person: personName,
+      start: dtStart,
+      end: dtEnd,
+      totalHours: roundHours(totalHours),
+      intervalCount: intervals.length,
+      byCase: [...byCase.values()]
+        .sort((a, b) => b.hours - a.hours)
+        .map(entry => ({ ...entry, hours: roundHours(entry.hours), link: api.getCaseLink(entry.id) })),
+      byProject: [...byProject.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .map(([project, hours]) => ({ project, hours: roundHours(hours) })),
+      byDay: [...byDay.entries()]
+        .sort((a, b) => a[0].localeCompare(b[0]))
+        .map(([day, hours]) => ({ day, hours: roundHours(hours) })),
+      message: `${personName} logged ${roundHours(totalHours)}h across ${byCase.size} cases between ${dtStart} and ${dtEnd}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+      candidates: error.candidates,
+    });
+  }
+}
+
+/**
+ * Resolves a person argument (ID, name or email) to their ID
+ */
+async function resolvePersonId(api: FogBugzApi, nameOrId: string | number, options: ResolveOptions = {}): Promise<number> {
+  return (await resolvePerson(api, nameOrId, false, options)).ixPerson;
+}
+
+/**
+ * Resolves a project argument (ID or name) to its ID
+ */
+async function resolveProjectId(api: FogBugzApi, nameOrId: string | number, options: ResolveOptions = {}): Promise<number> {
+  return (await resolveProject(api, nameOrId, options)).ixProject;
+}
+
+/**
+ * Reads the IDs of the milestones a milestone depends on, whichever shape FogBugz returned them in
+ */
+function getMilestoneDependencyIds(fixFor: FogBugzFixFor): number[] {
+  const deps = fixFor.setixFixForDependency;
+  if (!deps) return [];
+  const ids = typeof deps === 'string'
+    ? deps.split(',')
+    : deps.map(dep => (typeof dep === 'number' ? dep : dep.ixFixFor));
+  return ids.map(id => Number(id)).filter(id => id > 0);
+}
+
+/**
+ * Formats a milestone for tool output
+ */
+function formatMilestone(fixFor: FogBugzFixFor): Record<string, any> {
+  return {
+    id: fixFor.ixFixFor,
+    name: fixFor.sFixFor,
+    project: fixFor.sProject || (fixFor.ixProject ? fixFor.ixProject : 'global'),
+    releaseDate: fixFor.dt || null,
+    startDate: fixFor.dtStart || null,
+    startNote: fixFor.sStartNote || null,
+    inactive: Boolean(fixFor.fInactive || Number(fixFor.fDeleted)),
+    dependsOn: getMilestoneDependencyIds(fixFor),
+  };
+}
+
+/**
+ * Finds a chain of dependencies leading from one milestone to another, if any
+ */
+function findDependencyPath(
+  dependencies: Map<number, number[]>,
+  fromId: number,
+  toId: number
+): number[] | undefined {
+  const visited = new Set<number>();
+  const walk = (id: number): number[] | undefined => {
+    if (id === toId) return [id];
+    if (visited.has(id)) return undefined;
+    visited.add(id);
+    for (const next of dependencies.get(id) || []) {
+      const path = walk(next);
+      if (path) return [id, ...path];
+    }
+    return undefined;
+  };
+  return walk(fromId);
+}
+
+/**
+ * Orders milestones so that every milestone comes after the ones it depends on.
+ * Milestones caught in a dependency cycle cannot be ordered and are returned separately.
+ */
+function orderMilestones(milestones: FogBugzFixFor[]): { ordered: FogBugzFixFor[]; cyclic: FogBugzFixFor[] } {
+  const byId = new Map(milestones.map(fixFor => [fixFor.ixFixFor, fixFor]));
+  const remaining = new Map(milestones.map(fixFor => [
+    fixFor.ixFixFor,
+    new Set(getMilestoneDependencyIds(fixFor).filter(id => byId.has(id))),
+  ]));
+
+  // Break ties by release date, then by ID, so the order is stable
+  const compare = (a: FogBugzFixFor, b: FogBugzFixFor) =>
+    (a.dt || '\uffff').localeCompare(b.dt || '\uffff') || a.ixFixFor - b.ixFixFor;
+
+  const ordered: FogBugzFixFor[] = [];
+  let ready = milestones.filter(fixFor => remaining.get(fixFor.ixFixFor)!.size === 0).sort(compare);
+  while (ready.length > 0) {
+    const next = ready.shift()!;
+    remaining.delete(next.ixFixFor);
+    ordered.push(next);
+    for (const [id, deps] of remaining) {
+      if (deps.delete(next.ixFixFor) && deps.size === 0) {
+        ready.push(byId.get(id)!);
+      }
+    }
+    ready.sort(compare);
+  }
+
+  return {
+    ordered,
+    cyclic: [...remaining.keys()].map(id => byId.get(id)!),
+  };
+}
+
+/**
+ * Lists FogBugz milestones, optionally for one project
+ */
+export async function listMilestones(api: FogBugzApi, args: any): Promise<string> {
+  const { project, includeInactive } = args;
+
+  try {
+    const projectId = project !== undefined ? await resolveProjectId(api, project, { fuzzy: true }) : undefined;
+    const milestones = await api.listMilestones(projectId, includeInactive || false);
+
+    // Generate a response
+    return JSON.stringify({
+      count: milestones.length,
+      milestones: milestones.map(formatMilestone),
+      message: `Found ${milestones.length} milestones${project !== undefined ? ' for project ' + project : ''}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+      candidates: error.candidates,
+    });
+  }
+}
+
+/**
+ * Views a FogBugz milestone
+ */
+export async function viewMilestone(api: FogBugzApi, args: any): Promise<string> {
+  const { milestoneId } = args;
+
+  try {
+    const milestone = await api.viewMilestone(milestoneId);
+
+    // Generate a response
+    return JSON.stringify({
+      milestone: formatMilestone(milestone),
+      message: `Retrieved milestone #${milestone.ixFixFor}: "${milestone.sFixFor}"`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Creates a new FogBugz milestone
+ */
+export async function createMilestone(api: FogBugzApi, args: any): Promise<string> {
+  const {
+    name,
+    project,
+    releaseDate,
+    startDate,
+    startNote,
+    assignable,
+  } = args;
+
+  try {
+    // A project of -1 makes a global milestone
+    const params: CreateMilestoneParams = {
+      ixProject: project !== undefined ? await resolveProjectId(api, project) : -1,
+      sFixFor: name,
+    };
+
+    // Add optional parameters if provided
+    if (releaseDate) params.dtRelease = toFogBugzDate(releaseDate, 'releaseDate');
+    if (startDate) params.dtStart = toFogBugzDate(startDate, 'startDate');
+    if (startNote) params.sStartNote = startNote;
+    if (assignable !== undefined) params.fAssignable = assignable;
+
+    // Create the milestone
+    const milestoneId = await api.createMilestone(params);
+
+    // Generate a response
+    return JSON.stringify({
+      milestoneId,
+      message: `Created milestone "${name}" (ID: ${milestoneId})${project !== undefined ? ' in project ' + project : ' as a global milestone'}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+      candidates: error.candidates,
+    });
+  }
+}
+
+/**
+ * Edits a FogBugz milestone, keeping any fields that aren't being changed
+ */
+export async function editMilestone(api: FogBugzApi, args: any): Promise<string> {
+  const {
+    milestoneId,
+    name,
+    releaseDate,
+    startDate,
+    startNote,
+    assignable,
+  } = args;
+
+  try {
+    // editFixFor clears every optional field it isn't given, so start from the current values.
+    // An empty string clears a field on purpose.
+    const current = await api.viewMilestone(milestoneId);
+    const pick = (value: any, currentValue: any) => (value !== undefined ? value : currentValue);
+
+    const params: EditMilestoneParams = {
+      ixFixFor: milestoneId,
+      sFixFor: name || current.sFixFor,
+      fAssignable: pick(assignable, !current.fInactive),
+    };
+
+    const dtRelease = pick(releaseDate, current.dt);
+    const dtStart = pick(startDate, current.dtStart);
+    const sStartNote = pick(startNote, current.sStartNote);
+    if (dtRelease) params.dtRelease = toFogBugzDate(dtRelease, 'releaseDate');
+    if (dtStart) params.dtStart = toFogBugzDate(dtStart, 'startDate');
+    if (sStartNote) params.sStartNote = sStartNote;
+
+    // Edit the milestone
+    await api.editMilestone(params);
+
+    // Generate a response
+    return JSON.stringify({
+      milestoneId,
+      message: `Updated milestone #${milestoneId}: "${params.sFixFor}".`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Makes one FogBugz milestone depend on another, refusing dependencies that would form a cycle
+ */
+export async function addMilestoneDependency(api: FogBugzApi, args: any): Promise<string> {
+  const { milestoneId, dependsOnId } = args;
+
+  try {
+    if (milestoneId === dependsOnId) {
+      throw new Error('A milestone cannot depend on itself');
+    }
+
+    // Adding the dependency closes a cycle if the other milestone already depends on this one
+    const milestones = await api.listMilestones(undefined, true);
+    const dependencies = new Map(milestones.map(fixFor => [fixFor.ixFixFor, getMilestoneDependencyIds(fixFor)]));
+    const path = findDependencyPath(dependencies, dependsOnId, milestoneId);
+    if (path) {
+      return JSON.stringify({
+        error: `Milestone #${dependsOnId} already depends on #${milestoneId}, so this dependency would create a cycle`,
+        existingPath: path,
+      });
+    }
+
+    // Add the dependency
+    await api.addMilestoneDependency(milestoneId, dependsOnId);
+
+    // Generate a response
+    return JSON.stringify({
+      milestoneId,
+      dependsOnId,
+      message: `Milestone #${milestoneId} now depends on milestone #${dependsOnId}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Removes a dependency between two FogBugz milestones
+ */
+export async function removeMilestoneDependency(api: FogBugzApi, args: any): Promise<string> {
+  const { milestoneId, dependsOnId } = args;
+
+  try {
+    // Remove the dependency
+    await api.removeMilestoneDependency(milestoneId, dependsOnId);
+
+    // Generate a response
+    return JSON.stringify({
+      milestoneId,
+      dependsOnId,
+      message: `Milestone #${milestoneId} no longer depends on milestone #${dependsOnId}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Shows the milestone dependency graph for a project in dependency order
+ */
+export async function getMilestoneGraph(api: FogBugzApi, args: any): Promise<string> {
+  const { project, includeInactive } = args;
+
+  try {
+    const projectId = await resolveProjectId(api, project, { fuzzy: true });
+    const milestones = await api.listMilestones(projectId, includeInactive || false);
+    const { ordered, cyclic } = orderMilestones(milestones);
+
+    // Generate a response
+    return JSON.stringify({
+      project,
+      count: milestones.length,
+      ordered: ordered.map(formatMilestone),
+      cyclic: cyclic.map(formatMilestone),
+      message: `Ordered ${ordered.length} milestones for project ${project} by dependency` +
+        (cyclic.length > 0 ? `; ${cyclic.length} milestones are in a dependency cycle.` : '.'),
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+      candidates: error.candidates,
+    });
+  }
+}
+
+/**
+ * Reads the tag names from a wiki article
+ */
+function getArticleTags(article: FogBugzArticle): string[] {
+  return (article.tags || []).map(tag => (typeof tag === 'string' ? tag : tag.sTag));
+}
+
+/**
+ * Lists FogBugz wikis
+ */
+export async function listWikis(api: FogBugzApi, args: any): Promise<string> {
+  try {
+    const wikis = await api.listWikis();
+
+    // Format wiki information
+    const formattedWikis = wikis
+      .filter(wiki => !wiki.fDeleted)
+      .map(wiki => ({
+        id: wiki.ixWiki,
+        name: wiki.sWiki,
+        tagline: wiki.sTagLineHTML ? htmlToMarkdown(wiki.sTagLineHTML) : undefined,
+        rootArticleId: wiki.ixWikiPageRoot,
+        templateId: wiki.ixTemplate,
+      }));
+
+    // Generate a response
+    return JSON.stringify({
+      count: formattedWikis.length,
+      wikis: formattedWikis,
+      message: `Found ${formattedWikis.length} wikis.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Lists the articles in a FogBugz wiki
+ */
+export async function listArticles(api: FogBugzApi, args: any): Promise<string> {
+  const { wikiId } = args;
+
+  try {
+    const articles = await api.listArticles(wikiId);
+
+    // Format article information
+    const formattedArticles = articles.map(article => ({
+      id: article.ixWikiPage,
+      headline: article.sHeadline,
+      link: api.getArticleLink(article.ixWikiPage),
+    }));
+
+    // Generate a response
+    return JSON.stringify({
+      wikiId,
+      count: formattedArticles.length,
+      articles: formattedArticles,
+      message: `Found ${formattedArticles.length} articles in wiki #${wikiId}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Views a FogBugz wiki article, as Markdown unless HTML is asked for
+ */
+export async function viewArticle(api: FogBugzApi, args: any): Promise<string> {
+  const { articleId, revision, format } = args;
+
+  try {
+    const article = await api.viewArticle(articleId, revision);
+    const asHtml = format === 'html';
+
+    // Generate a response
+    return JSON.stringify({
+      article: {
+        id: articleId,
+        headline: article.sHeadline,
+        revision: article.nRevision,
+        tags: getArticleTags(article),
+        format: asHtml ? 'html' : 'markdown',
+        body: asHtml ? article.sBody : htmlToMarkdown(article.sBody || ''),
+        link: api.getArticleLink(articleId),
+      },
+      message: `Retrieved article #${articleId}: "${article.sHeadline}"${article.nRevision ? ' (revision ' + article.nRevision + ')' : ''}`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Creates a FogBugz wiki article from a Markdown body
+ */
+export async function createArticle(api: FogBugzApi, args: any): Promise<string> {
+  const { wikiId, headline, body, tags } = args;
+
+  try {
+    // Prepare article parameters
+    const params: CreateArticleParams = {
+      ixWiki: wikiId,
+      sHeadline: headline,
+      sBody: markdownToHtml(body || ''),
+    };
+
+    if (tags && tags.length > 0) params.sTags = tags.join(',');
+
+    // Create the article
+    const article = await api.createArticle(params);
+
+    // Generate a response
+    return JSON.stringify({
+      articleId: article.ixWikiPage,
+      link: api.getArticleLink(article.ixWikiPage),
+      message: `Created article #${article.ixWikiPage}: "${headline}" in wiki #${wikiId}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Edits a FogBugz wiki article, taking the new body as Markdown
+ */
+export async function editArticle(api: FogBugzApi, args: any): Promise<string> {
+  const { articleId, headline, body, comment, tags } = args;
+
+  try {
+    // Prepare article parameters
+    const params: EditArticleParams = {
+      ixWikiPage: articleId,
+    };
+
+    // Add optional parameters if provided
+    if (headline) params.sHeadline = headline;
+    if (body !== undefined) params.sBody = markdownToHtml(body);
+    if (comment) params.sComment = comment;
+    if (tags) params.sTags = tags.join(',');
+
+    // Edit the article
+    await api.editArticle(params);
+
+    // Generate a response
+    return JSON.stringify({
+      articleId,
+      link: api.getArticleLink(articleId),
+      message: `Updated article #${articleId}${headline ? ': "' + headline + '"' : ''}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Lists the revisions of a FogBugz wiki article
+ */
+export async function listArticleRevisions(api: FogBugzApi, args: any): Promise<string> {
+  const { articleId } = args;
+
+  try {
+    const revisions = await api.listRevisions(articleId);
+
+    // Format revision information, newest first
+    const formattedRevisions = revisions
+      .map(revision => ({
+        revision: revision.nRevision,
+        title: revision.sTitle,
+        comment: revision.sComment,
+        personId: revision.ixPerson,
+        date: revision.dt,
+      }))
+      .sort((a, b) => b.revision - a.revision);
+
+    // Generate a response
+    return JSON.stringify({
+      articleId,
+      count: formattedRevisions.length,
+      revisions: formattedRevisions,
+      message: `Found ${formattedRevisions.length} revisions of article #${articleId}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Renders an article revision as the Markdown text that diffs are taken over
+ */
+function articleToDiffText(article: FogBugzArticle): string {
+  return `# ${article.sHeadline}\n\n${htmlToMarkdown(article.sBody || '')}\n`;
+}
+
+/**
+ * Shows a unified diff between two revisions of a FogBugz wiki article,
+ * along with who made each revision in between and when
+ */
+export async function diffArticleRevisions(api: FogBugzApi, args: any): Promise<string> {
+  const { articleId, fromRevision, toRevision } = args;
+
+  try {
+    const revisions = (await api.listRevisions(articleId)).sort((a, b) => a.nRevision - b.nRevision);
+    if (revisions.length === 0) {
+      throw new Error(`Article #${articleId} has no revisions`);
+    }
+
+    // Default to the latest revision compared with the one before it
+    const toRev = toRevision ?? revisions[revisions.length - 1].nRevision;
+    const earlier = revisions.filter(revision => revision.nRevision < toRev);
+    const fromRev = fromRevision ?? (earlier.length > 0 ? earlier[earlier.length - 1].nRevision : 0);
+    for (const wanted of [fromRev, toRev]) {
+      if (wanted !== 0 && !revisions.some(revision => revision.nRevision === wanted)) {
+        throw new Error(`Article #${articleId} has no revision ${wanted}`);
+      }
+    }
+    if (fromRev >= toRev) {
+      throw new Error('fromRevision must be earlier than toRevision');
+    }
+
+    // Names of the editors are nice to have, but listing people may not be allowed
+    const names = new Map<number, string>();
+    try {
+      (await api.listPeople()).forEach(person => names.set(person.ixPerson, person.sFullName || person.sPerson || person.sEmail));
+    } catch (err) {
+      // Fall back to person IDs
+    }
+    const editorName = (ixPerson?: number) => (ixPerson ? names.get(ixPerson) || `Person #${ixPerson}` : undefined);
+    const describe = (nRevision: number) => {
+      const revision = revisions.find(candidate => candidate.nRevision === nRevision);
+      if (!revision) return 'empty';
+      return `revision ${nRevision} by ${editorName(revision.ixPerson) || 'unknown'} at ${revision.dt}`;
+    };
+
+    // Fetch both revisions and diff them as Markdown
+    const [fromArticle, toArticle] = await Promise.all([
+      fromRev > 0 ? api.viewArticle(articleId, fromRev) : undefined,
+      api.viewArticle(articleId, toRev),
+    ]);
+    const diff = createTwoFilesPatch(
+      `article-${articleId}`,
+      `article-${articleId}`,
+      fromArticle ? articleToDiffText(fromArticle) : '',
+      articleToDiffText(toArticle),
+      describe(fromRev),
+      describe(toRev)
+    );
+
+    // List every revision that contributed to the change
+    const changes = revisions
+      .filter(revision => revision.nRevision > fromRev && revision.nRevision <= toRev)
+      .map(revision => ({
+        revision: revision.nRevision,
+        person: editorName(revision.ixPerson),
+        date: revision.dt,
+        comment: revision.sComment,
+      }));
+
+    // Generate a response
+    return JSON.stringify({
+      articleId,
+      fromRevision: fromRev,
+      toRevision: toRev,
+      changes,
+      diff,
+      message: `Diff of article #${articleId} from revision ${fromRev} to ${toRev} (${changes.length} revisions).`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Lists FogBugz wiki templates
+ */
+export async function listTemplates(api: FogBugzApi, args: any): Promise<string> {
+  try {
+    const templates = await api.listTemplates();
+
+    // Format template information
+    const formattedTemplates = templates.map(template => ({
+      id: template.ixTemplate,
+      name: template.sTemplate,
+    }));
+
+    // Generate a response
+    return JSON.stringify({
+      count: formattedTemplates.length,
+      templates: formattedTemplates,
+      message: `Found ${formattedTemplates.length} wiki templates.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Views a FogBugz wiki template's HTML and CSS
+ */
+export async function viewTemplate(api: FogBugzApi, args: any): Promise<string> {
+  const { templateId, revision } = args;
+
+  try {
+    const template = await api.viewTemplate(templateId, revision);
+
+    // Generate a response
+    return JSON.stringify({
+      template: {
+        id: templateId,
+        name: template.sTemplate,
+        revision: template.nRevision,
+        isDefault: template.fDefault || false,
+        readOnly: template.fReadOnly || false,
+        html: template.sBodyHTML || '',
+        css: template.sBodyCSS || '',
+      },
+      message: `Retrieved template #${templateId}: "${template.sTemplate}"${template.nRevision ? ' (revision ' + template.nRevision + ')' : ''}`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Creates a FogBugz wiki template
+ */
+export async function createTemplate(api: FogBugzApi, args: any): Promise<string> {
+  const { name, html, css, comment, isDefault } = args;
+
+  try {
+    // Prepare template parameters
+    const params: CreateTemplateParams = {
+      sTemplate: name,
+      sBodyHTML: html,
+      sBodyCSS: css || '',
+    };
+
+    if (comment) params.sComment = comment;
+    if (isDefault !== undefined) params.fDefault = isDefault;
+
+    // Create the template
+    const template = await api.createTemplate(params);
+
+    // Generate a response
+    return JSON.stringify({
+      templateId: template.ixTemplate,
+      message: `Created wiki template "${name}" (ID: ${template.ixTemplate}).`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Edits a FogBugz wiki template
+ */
+export async function editTemplate(api: FogBugzApi, args: any): Promise<string> {
+  const { templateId, name, html, css, comment, isDefault } = args;
+
+  try {
+    // Prepare template parameters
+    const params: EditTemplateParams = {
+      ixTemplate: templateId,
+    };
+
+    // Add optional parameters if provided
+    if (name) params.sTemplate = name;
+    if (html !== undefined) params.sBodyHTML = html;
+    if (css !== undefined) params.sBodyCSS = css;
+    if (comment) params.sComment = comment;
+    if (isDefault !== undefined) params.fDefault = isDefault;
+
+    // Edit the template
+    await api.editTemplate(params);
+
+    // Generate a response
+    return JSON.stringify({
+      templateId,
+      message: `Updated wiki template #${templateId}${name ? ': "' + name + '"' : ''}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Lists the revisions of a FogBugz wiki template
+ */
+export async function listTemplateRevisions(api: FogBugzApi, args: any): Promise<string> {
+  const { templateId } = args;
+
+  try {
+    const revisions = await api.listTemplateRevisions(templateId);
+
+    // Format revision information, newest first
+    const formattedRevisions = revisions
+      .map(revision => ({
+        revision: revision.nRevision,
+        title: revision.sTitle,
+        comment: revision.sComment,
+        personId: revision.ixPerson,
+        date: revision.dt,
+      }))
+      .sort((a, b) => b.revision - a.revision);
+
+    // Generate a response
+    return JSON.stringify({
+      templateId,
+      count: formattedRevisions.length,
+      revisions: formattedRevisions,
+      message: `Found ${formattedRevisions.length} revisions of wiki template #${templateId}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Deletes a FogBugz wiki template, but only when explicitly confirmed
+ */
+export async function deleteTemplate(api: FogBugzApi, args: any): Promise<string> {
+  const { templateId, confirm } = args;
+
+  try {
+    if (confirm !== true) {
+      return JSON.stringify({
+        error: `Deleting wiki template #${templateId} cannot be undone. Call again with confirm set to true to delete it.`,
+      });
+    }
+
+    // Delete the template
+    await api.deleteTemplate(templateId);
+
+    // Generate a response
+    return JSON.stringify({
+      templateId,
+      message: `Deleted wiki template #${templateId}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Renders a discussion thread as plain text, oldest post first
+ */
+function formatDiscussThread(posts: FogBugzDiscussPost[]): string {
+  return [...posts]
+    .sort((a, b) => a.dt.localeCompare(b.dt))
+    .map(post => {
+      const author = `${post.sFullName || 'Anonymous'}${post.fModerator ? ' (moderator)' : ''}`;
+      return `${post.sHeadline}\n${author} - ${post.dt}\n\n${htmlToMarkdown(post.sPost || '')}`;
+    })
+    .join('\n\n---\n\n');
+}
+
+/**
+ * Lists FogBugz discussion groups
+ */
+export async function listDiscussGroups(api: FogBugzApi, args: any): Promise<string> {
+  try {
+    const groups = await api.listDiscussGroups();
+
+    // Format discussion group information
+    const formattedGroups = groups.map(group => ({
+      id: group.ixDiscussGroup,
+      name: group.sFullName,
+      tagline: group.sTagLineHTML ? htmlToMarkdown(group.sTagLineHTML) : undefined,
+      link: group.sURL,
+    }));
+
+    // Generate a response
+    return JSON.stringify({
+      count: formattedGroups.length,
+      groups: formattedGroups,
+      message: `Found ${formattedGroups.length} discussion groups.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Lists the topics in a FogBugz discussion group, newest first, one page at a time
+ */
+export async function listDiscussTopics(api: FogBugzApi, args: any): Promise<string> {
+  const { groupId, month, year, offset, limit } = args;
+
+  try {
+    // Prepare discussion parameters; fFull 2 lists top-level topics only
+    const params: ListDiscussionParams = {
+      ixDiscussGroup: groupId,
+      fFull: 2,
+    };
+
+    if (month) params.m = month;
+    if (year) params.y = year;
+
+    const discussion = await api.listDiscussion(params);
+
+    // Page through the topics, newest first
+    const start = offset || 0;
+    const pageSize = limit || 20;
+    const topics = (discussion.topics || [])
+      .map(topic => topic.post)
+      .filter(post => !post.ixDiscussTopicParent)
+      .sort((a, b) => b.dt.localeCompare(a.dt));
+    const page = topics.slice(start, start + pageSize).map(post => ({
+      id: post.ixDiscussTopic,
+      headline: post.sHeadline,
+      author: post.sFullName,
+      date: post.dt,
+      link: api.getDiscussTopicLink(post.ixDiscussTopic),
+    }));
+
+    // Generate a response
+    return JSON.stringify({
+      groupId,
+      groupName: discussion.sFullName,
+      total: topics.length,
+      offset: start,
+      count: page.length,
+      hasMore: start + page.length < topics.length,
+      topics: page,
+      message: `Showing ${page.length} of ${topics.length} topics in "${discussion.sFullName}".`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Reads a full FogBugz discussion thread as plain text
+ */
+export async function readDiscussTopic(api: FogBugzApi, args: any): Promise<string> {
+  const { topicId } = args;
+
+  try {
+    const posts = await api.listDiscussTopic(topicId);
+    if (posts.length === 0) {
+      throw new Error(`Discussion topic #${topicId} not found`);
+    }
+
+    const first = posts.find(post => post.ixDiscussTopic === topicId) || posts[0];
+
+    // Generate a response
+    return JSON.stringify({
+      topicId,
+      headline: first.sHeadline,
+      postCount: posts.length,
+      link: api.getDiscussTopicLink(topicId),
+      thread: formatDiscussThread(posts),
+      message: `Retrieved discussion topic #${topicId}: "${first.sHeadline}" (${posts.length} posts).`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Creates a FogBugz case from a discussion topic, with a link back to the topic
+ */
+export async function createCaseFromDiscussTopic(api: FogBugzApi, args: any): Promise<string> {
+  const { topicId, title, ...caseArgs } = args;
+
+  try {
+    const posts = await api.listDiscussTopic(topicId);
+    if (posts.length === 0) {
+      throw new Error(`Discussion topic #${topicId} not found`);
+    }
+
+    const first = posts.find(post => post.ixDiscussTopic === topicId) || posts[0];
+    const topicLink = api.getDiscussTopicLink(topicId);
+    const description = `Created from discussion topic: ${topicLink}\n\n${formatDiscussThread(posts)}`;
+
+    // Create the case through the regular create handler
+    return createCase(api, {
+      ...caseArgs,
+      title: title || first.sHeadline,
+      description,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Submits a crash report through BugzScout, normalizing the stack trace so
+ * that repeat crashes are counted against the same case
+ */
+export async function submitScoutReport(api: FogBugzApi, args: any): Promise<string> {
+  const {
+    title,
+    stackTrace,
+    details,
+    version,
+    project,
+    area,
+    scoutMessage,
+    stopReporting,
+  } = args;
+
+  try {
+    const description = buildScoutDescription(stackTrace, version);
+
+    // Prepare report parameters; the raw stack trace goes into the case event
+    const params: ScoutReportParams = {
+      sTitle: title || description.split(' | ')[0],
+      sScoutDescription: description,
+      sEvent: [details, stackTrace].filter(Boolean).join('\n\n'),
+    };
+
+    // BugzScout only takes names, so send the exact ones rather than what was typed
+    const projectMatch = project ? await resolveProject(api, project) : undefined;
+    if (projectMatch) params.sProject = projectMatch.sProject;
+    if (area) params.sArea = (await resolveArea(api, area, projectMatch?.ixProject)).sArea;
+    if (scoutMessage) params.sScoutMessage = scoutMessage;
+    if (stopReporting !== undefined) params.fScoutStopReporting = stopReporting;
+
+    await api.submitScoutReport(params);
+
+    // Look the case up by its signature to see how often it has happened
+    const scoutCase = await api.listScoutCase(description);
+    if (!scoutCase) {
+      throw new Error(`Submitted crash report, but no BugzScout case matches "${description}"`);
+    }
+
+    // FogBugz ignores these fields when a report lands on an existing case, so apply them directly
+    const needsUpdate = (scoutMessage && scoutCase.sScoutMessage !== scoutMessage) ||
+      (stopReporting !== undefined && Boolean(scoutCase.fScoutStopReporting) !== stopReporting);
+    if (needsUpdate) {
+      await api.updateCase({
+        ixBug: scoutCase.ixBug,
+        ...(scoutMessage ? { sScoutMessage: scoutMessage } : {}),
+        ...(stopReporting !== undefined ? { fScoutStopReporting: stopReporting ? 1 : 0 } : {}),
+      });
+    }
+
+    // The "c" column holds the number of occurrences minus one
+    const [caseData] = await api.searchCases({
+      q: scoutCase.ixBug.toString(),
+      cols: ['ixBug', 'sTitle', 'c'],
+      max: 1,
+    });
+    const occurrences = (Number(caseData?.c) || 0) + 1;
+
+    // Generate a response
+    return JSON.stringify({
+      caseId: scoutCase.ixBug,
+      caseLink: api.getCaseLink(scoutCase.ixBug),
+      scoutDescription: description,
+      occurrences,
+      lastOccurrence: scoutCase.dtLastOccurrence,
+      scoutMessage: scoutMessage || scoutCase.sScoutMessage,
+      stopReporting: stopReporting !== undefined ? stopReporting : Boolean(scoutCase.fScoutStopReporting),
+      message: occurrences > 1
+        ? `Recorded occurrence ${occurrences} of crash case #${scoutCase.ixBug}.`
+        : `Created crash case #${scoutCase.ixBug}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+      candidates: error.candidates,
+    });
+  }
+}
+
+/**
+ * Groups a case's checkins by commit, since FogBugz stores one checkin per file
+ */
+function groupCheckins(checkins: FogBugzCheckin[]): Array<Record<string, any>> {
+  const commits = new Map<string, { revision: string; previous: string; repositoryId?: number; files: string[] }>();
+  for (const checkin of checkins) {
+    const key = `${checkin.ixRepository || ''}:${checkin.sNew}`;
+    const commit = commits.get(key) || {
+      revision: checkin.sNew,
+      previous: checkin.sPrev,
+      repositoryId: checkin.ixRepository,
+      files: [],
+    };
+    commit.files.push(checkin.sFile);
+    commits.set(key, commit);
+  }
+  return [...commits.values()];
+}
+
+/**
+ * Lists the source control checkins linked to a FogBugz case
+ */
+export async function listCheckins(api: FogBugzApi, args: any): Promise<string> {
+  const { caseId } = args;
+
+  try {
+    const checkins = await api.listCheckins(caseId);
+    const commits = groupCheckins(checkins);
+
+    // Generate a response
+    return JSON.stringify({
+      caseId,
+      count: commits.length,
+      commits,
+      message: `Found ${commits.length} commits (${checkins.length} file checkins) linked to case #${caseId}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Reads the git log of a local repository and links every commit that
+ * references a case to that case, skipping checkins FogBugz already has
+ */
+export async function importGitLog(api: FogBugzApi, args: any): Promise<string> {
+  const {
+    repositoryPath,
+    repositoryId,
+    branch,
+    since,
+    maxCommits,
+    dryRun,
+  } = args;
+
+  try {
+    const commits = await readGitLog(repositoryPath, {
+      branch,
+      since,
+      maxCount: maxCommits || 500,
+    });
+
+    // Load the existing checkins of each referenced case once
+    const existing = new Map<number, Set<string>>();
+    const checkinKey = (file: string, revision: string) => `${file}@${revision}`;
+    const existingFor = async (caseId: number) => {
+      if (!existing.has(caseId)) {
+        const checkins = await api.listCheckins(caseId);
+        existing.set(caseId, new Set(checkins.map(checkin => checkinKey(checkin.sFile, checkin.sNew))));
+      }
+      return existing.get(caseId)!;
+    };
+
+    const linked: Array<{ caseId: number; commit: string; files: number }> = [];
+    const failed: Array<{ caseId: number; commit: string; error: string }> = [];
+    let skipped = 0;
+
+    // Oldest first, so checkins appear in commit order
+    for (const commit of [...commits].reverse()) {
+      for (const caseId of findCaseReferences(commit.message)) {
+        try {
+          const known = await existingFor(caseId);
+          const newFiles = commit.files.filter(file => !known.has(checkinKey(file, commit.hash)));
+          skipped += commit.files.length - newFiles.length;
+          if (newFiles.length === 0) continue;
+
+          if (!dryRun) {
+            for (const file of newFiles) {
+              await api.createCheckin({
+                ixBug: caseId,
+                sFile: file,
+                sPrev: commit.parents[0] || '',
+                sNew: commit.hash,
+                ...(repositoryId ? { ixRepository: repositoryId } : {}),
+              });
+              known.add(checkinKey(file, commit.hash));
+            }
+          }
+          linked.push({ caseId, commit: commit.hash, files: newFiles.length });
+        } catch (err: any) {
+          failed.push({ caseId, commit: commit.hash, error: err.message });
+        }
+      }
+    }
+
+    // Generate a response
+    return JSON.stringify({
+      repositoryPath,
+      commitsScanned: commits.length,
+      dryRun: Boolean(dryRun),
+      linked,
+      skippedExistingCheckins: skipped,
+      failed,
+      message: `${dryRun ? 'Would link' : 'Linked'} ${linked.length} commit/case pairs from ${commits.length} commits` +
+        `${skipped ? ', skipping ' + skipped + ' file checkins already in FogBugz' : ''}` +
+        `${failed.length ? '; ' + failed.length + ' failed' : ''}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Upper bound on the number of cases searched for one set of release notes
+ */
+const MAX_RELEASE_NOTE_CASES = 1000;
+
+/**
+ * Generates release notes for a milestone from its resolved and closed cases.
+ * Cases without release notes fall back to their title, and that fallback can
+ * be written back onto the cases.
+ */
+export async function generateReleaseNotes(api: FogBugzApi, args: any): Promise<string> {
+  const { milestone, project, groupBy, format, writeMissing } = args;
+
+  try {
+    // Find the milestone by ID or by name, within the project when one is given;
+    // writing release notes back needs exact names, like any other change
+    const options: ResolveOptions = { fuzzy: !writeMissing };
+    const projectId = project !== undefined ? await resolveProjectId(api, project, options) : undefined;
+    const fixFor = await resolveMilestone(api, milestone, projectId, true, options);
+
+    const scope = fixFor.sProject ? ` project:"${fixFor.sProject}"` : '';
+    const found = await api.searchCases({
+      q: `fixfor:"${fixFor.sFixFor}"${scope} (status:resolved OR status:closed)`,
+      cols: ['ixBug', 'sTitle', 'sReleaseNotes', 'sCategory', 'sArea', 'sStatus', 'ixFixFor'],
+      max: MAX_RELEASE_NOTE_CASES,
+    });
+    // The search goes by name, and a global milestone's name can also match project milestones
+    const cases = found.filter(bugCase => bugCase.ixFixFor === fixFor.ixFixFor);
+    const truncated = found.length >= MAX_RELEASE_NOTE_CASES;
+
+    // Group the notes by category or area
+    const groupField = groupBy === 'area' ? 'sArea' : 'sCategory';
+    const groups = new Map<string, ReleaseNoteGroup>();
+    const missing: number[] = [];
+    for (const bugCase of [...cases].sort((a, b) => a.ixBug - b.ixBug)) {
+      const note = (bugCase.sReleaseNotes || '').trim();
+      if (!note) missing.push(bugCase.ixBug);
+
+      const name = bugCase[groupField] || 'Other';
+      const group = groups.get(name) || { name, entries: [] };
+      group.entries.push({ caseId: bugCase.ixBug, note: note || bugCase.sTitle });
+      groups.set(name, group);
+    }
+
+    // Optionally store the title fallback as the release note
+    const written: number[] = [];
+    if (writeMissing) {
+      for (const caseId of missing) {
+        const bugCase = cases.find(candidate => candidate.ixBug === caseId)!;
+        await api.updateCase({ ixBug: caseId, sReleaseNotes: bugCase.sTitle });
+        written.push(caseId);
+      }
+    }
+
+    const notesFormat: ReleaseNotesFormat = ['html', 'text'].includes(format) ? format : 'markdown';
+    const sortedGroups = [...groups.values()].sort((a, b) => a.name.localeCompare(b.name));
+    const releaseNotes = renderReleaseNotes(`Release Notes: ${fixFor.sFixFor}`, sortedGroups, notesFormat);
+
+    // Generate a response
+    return JSON.stringify({
+      milestone: fixFor.sFixFor,
+      milestoneId: fixFor.ixFixFor,
+      caseCount: cases.length,
+      format: notesFormat,
+      missingReleaseNotes: writeMissing ? [] : missing,
+      writtenReleaseNotes: written,
+      truncated,
+      releaseNotes,
+      message: `Generated release notes for "${fixFor.sFixFor}" from ${cases.length} cases` +
+        (missing.length > 0
+          ? writeMissing
+            ? `; wrote title-based release notes onto ${written.length} cases.`
+            : `; ${missing.length} cases have no release notes and use their title.`
+          : '.') +
+        (truncated ? ` The search stopped at ${MAX_RELEASE_NOTE_CASES} cases, so some cases are missing.` : ''),
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+      candidates: error.candidates,
+    });
+  }
+}
+
+/**
+ * Resolves an optional person argument; undefined means the current user
+ */
+async function resolveOptionalPerson(
+  api: FogBugzApi,
+  person?: string | number,
+  options: ResolveOptions = {}
+): Promise<FogBugzPerson | undefined> {
+  if (person === undefined || person === null || person === '') return undefined;
+  return resolvePerson(api, person, false, options);
+}
+
+/**
+ * Adds project names to a person's project time allocations
+ */
+function formatProjectPercentTimes(
+  allocations: FogBugzProjectPercentTime[],
+  projects: FogBugzProject[]
+): Array<Record<string, any>> {
+  const namesById = new Map(projects.map(project => [project.ixProject, project.sProject]));
+  return allocations.map(allocation => ({
+    id: allocation.ixProjectPercentTime,
+    projectId: allocation.ixProject,
+    project: namesById.get(allocation.ixProject),
+    percent: allocation.nPercent,
+  }));
+}
+
+/**
+ * Shows a person's working schedule and how their time is split across projects
+ */
+export async function viewWorkingSchedule(api: FogBugzApi, args: any): Promise<string> {
+  const { person } = args;
+
+  try {
+    const match = await resolveOptionalPerson(api, person, { fuzzy: true });
+    const personName = match ? match.sFullName || match.sPerson || match.sEmail : 'current user';
+
+    const [schedule, percentTimes, projects] = await Promise.all([
+      api.listWorkingSchedule(match?.ixPerson),
+      api.listProjectPercentTime(match?.ixPerson),
+      api.listProjects(),
+    ]);
+
+    const workDays = Object.entries(schedule.rgWorkDays || {})
+      .filter(([, isWorkDay]) => isWorkDay)
+      .map(([day]) => day);
+    const allocations = formatProjectPercentTimes(percentTimes.projectpercenttimes || [], projects);
+
+    // Generate a response
+    return JSON.stringify({
+      personId: schedule.ixPerson,
+      person: personName,
+      hoursPerDay: schedule.nHoursPerDay,
+      workdayStarts: schedule.nWorkdayStarts,
+      workdayEnds: schedule.nWorkdayEnds,
+      lunch: schedule.fHasLunch
+        ? { starts: schedule.nLunchStarts, hours: schedule.hrsLunchLength }
+        : null,
+      workDays,
+      lastUpdated: schedule.dtLastUpdated,
+      projectAllocations: allocations,
+      percentAllOtherProjects: percentTimes.nPercentTimeAllOtherProjects,
+      message: `${personName} works ${schedule.nHoursPerDay}h/day on ${workDays.length} days a week, ` +
+        `with ${allocations.length} project allocations.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+      candidates: error.candidates,
+    });
+  }
+}
+
+/**
+ * Sets the percentage of a person's time allocated to a project, adding, changing or removing the allocation
+ */
+export async function setProjectTime(api: FogBugzApi, args: any): Promise<string> {
+  const { project, percent, person } = args;
+
+  try {
+    const nPercent = Number(percent);
+    if (!Number.isInteger(nPercent) || nPercent < 0 || nPercent > 100) {
+      throw new Error('percent must be a whole number between 0 and 100');
+    }
+
+    const match = await resolveOptionalPerson(api, person);
+    const personName = match ? match.sFullName || match.sPerson || match.sEmail : 'current user';
+    const projectId = await resolveProjectId(api, project);
+
+    const { projectpercenttimes } = await api.listProjectPercentTime(match?.ixPerson);
+    const allocations = projectpercenttimes || [];
+    const existing = allocations.find(allocation => allocation.ixProject === projectId);
+
+    // FogBugz rejects allocations that add up to more than 100%
+    const otherTotal = allocations
+      .filter(allocation => allocation !== existing)
+      .reduce((sum, allocation) => sum + allocation.nPercent, 0);
+    if (otherTotal + nPercent > 100) {
+      throw new Error(
+        `Cannot allocate ${nPercent}% to project ${projectId}: ${personName} already has ${otherTotal}% ` +
+        `allocated to other projects, leaving ${100 - otherTotal}%`
+      );
+    }
+
+    let action: string;
+    if (existing && nPercent === 0) {
+      await api.deleteProjectPercentTime(existing.ixProjectPercentTime);
+      action = 'removed';
+    } else if (existing) {
+      await api.editProjectPercentTime(existing.ixProjectPercentTime, nPercent);
+      action = 'updated';
+    } else if (nPercent === 0) {
+      action = 'unchanged';
+    } else {
+      // addProjectPercentTime only acts on the logged-in user
+      if (match && (await api.getCurrentUser()).ixPerson !== match.ixPerson) {
+        throw new Error(
+          `${personName} has no allocation for project ${projectId}; FogBugz only lets you add allocations for yourself`
+        );
+      }
+      await api.addProjectPercentTime(projectId, nPercent);
+      action = 'added';
+    }
+
+    // Generate a response
+    return JSON.stringify({
+      projectId,
+      person: personName,
+      percent: nPercent,
+      action,
+      totalPercent: otherTotal + nPercent,
+      message: `Allocation of ${nPercent}% to project ${projectId} for ${personName} ${action}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+      candidates: error.candidates,
+    });
+  }
+}
+
+/**
+ * Turns an hours estimate into a calendar completion date using a person's working schedule
+ */
+export async function estimateCompletionDate(api: FogBugzApi, args: any): Promise<string> {
+  const { hours, start, person } = args;
+
+  try {
+    const hrs = Number(hours);
+    if (isNaN(hrs) || hrs < 0) {
+      throw new Error('hours must be a non-negative number');
+    }
+
+    const match = await resolveOptionalPerson(api, person, { fuzzy: true });
+    const personName = match ? match.sFullName || match.sPerson || match.sEmail : 'current user';
+    const dtStart = toFogBugzDate(start || new Date(), 'start');
+
+    const dtEnd = await api.dateFromHours(hrs, dtStart, match?.ixPerson);
+
+    // Generate a response
+    return JSON.stringify({
+      person: personName,
+      hours: hrs,
+      start: dtStart,
+      completionDate: dtEnd,
+      message: `${hrs}h of work starting ${dtStart} for ${personName} completes around ${dtEnd}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+      candidates: error.candidates,
+    });
+  }
+}
+
+/**
+ * Columns fetched when listing cases from a search or filter
+ */
+const CASE_SUMMARY_COLS = [
+  'ixBug',
+  'sTitle',
+  'sStatus',
+  'sPriority',
+  'sProject',
+  'sArea',
+  'sFixFor',
+  'sPersonAssignedTo',
+  'tags',
+];
+
+/**
+ * Formats a case fetched with CASE_SUMMARY_COLS
+ */
+function formatCaseSummary(api: FogBugzApi, bugCase: FogBugzCase): Record<string, any> {
+  return {
+    id: bugCase.ixBug,
+    title: bugCase.sTitle,
+    status: bugCase.sStatus,
+    priority: bugCase.sPriority,
+    project: bugCase.sProject,
+    area: bugCase.sArea,
+    milestone: bugCase.sFixFor,
+    assignee: bugCase.sPersonAssignedTo,
+    tags: getCaseTags(bugCase),
+    link: api.getCaseLink(bugCase.ixBug),
+  };
+}
+
+/**
+ * Finds a filter by its sFilter ID or its name
+ */
+function findFilter(filters: FogBugzFilter[], nameOrId: string | number): FogBugzFilter {
+  const wanted = String(nameOrId).trim();
+  const filter = filters.find(candidate => candidate.sFilter === wanted) ||
+    filters.find(candidate => candidate.name.toLowerCase() === wanted.toLowerCase());
+  if (!filter) {
+    throw new Error(`No filter found matching "${nameOrId}"`);
+  }
+  return filter;
+}
+
+/**
+ * Runs a filter by making it current, searching, then switching back to the user's previous
+ * current filter so the web UI is left as it was. Built-in filters are never reported as
+ * current, so when one is in use there is nothing to restore; the filter is then left
+ * current, which the caller has to allow explicitly.
+ */
+async function runFilter(
+  api: FogBugzApi,
+  filters: FogBugzFilter[],
+  filter: FogBugzFilter,
+  max: number,
+  allowChangingCurrentFilter: boolean
+): Promise<{ cases: FogBugzCase[]; restoredFilter?: FogBugzFilter; warning?: string }> {
+  const previous = filters.find(candidate => candidate.status === 'current');
+  if (previous?.sFilter === filter.sFilter) {
+    return { cases: await api.searchCases({ cols: CASE_SUMMARY_COLS, max }) };
+  }
+  if (!previous && !allowChangingCurrentFilter) {
+    throw new Error(
+      `Running "${filter.name}" would leave it as your current filter in FogBugz, since the current ` +
+      'filter is a built-in one that can\'t be restored. Set changeCurrentFilter to run it anyway'
+    );
+  }
+
+  await api.setCurrentFilter(filter.sFilter);
+  try {
+    return {
+      cases: await api.searchCases({ cols: CASE_SUMMARY_COLS, max }),
+      restoredFilter: previous,
+      warning: previous ? undefined : `"${filter.name}" is now your current filter in FogBugz.`,
+    };
+  } finally {
+    if (previous) {
+      await api.setCurrentFilter(previous.sFilter);
+    }
+  }
+}
+
+/**
+ * Lists the current user's built-in, saved and shared filters
+ */
+export async function listFilters(api: FogBugzApi, args: any): Promise<string> {
+  const { type } = args;
+
+  try {
+    const filters = (await api.listFilters())
+      .filter(filter => !type || filter.type === type);
+
+    // Generate a response
+    return JSON.stringify({
+      count: filters.length,
+      filters: filters.map(filter => ({
+        id: filter.sFilter,
+        name: filter.name,
+        type: filter.type,
+        current: filter.status === 'current',
+      })),
+      message: `Found ${filters.length} ${type ? `${type} ` : ''}filters.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Lists the cases in a saved or shared filter without changing the user's current filter
+ */
+export async function runSavedFilter(api: FogBugzApi, args: any): Promise<string> {
+  const { filter, limit, changeCurrentFilter } = args;
+
+  try {
+    const filters = await api.listFilters();
+    const target = findFilter(filters, filter);
+    const { cases, restoredFilter, warning } = await runFilter(api, filters, target, limit || 50, changeCurrentFilter === true);
+
+    // Generate a response
+    return JSON.stringify({
+      filter: { id: target.sFilter, name: target.name, type: target.type },
+      count: cases.length,
+      cases: cases.map(bugCase => formatCaseSummary(api, bugCase)),
+      restoredFilter: restoredFilter?.name,
+      warning,
+      message: `Filter "${target.name}" has ${cases.length} cases.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Compares the cases returned by two filters
+ */
+export async function compareFilters(api: FogBugzApi, args: any): Promise<string> {
+  const { filterA, filterB, limit, changeCurrentFilter } = args;
+
+  try {
+    const filters = await api.listFilters();
+    const first = findFilter(filters, filterA);
+    const second = findFilter(filters, filterB);
+    const max = limit || 1000;
+
+    // Run the filters one after the other; each restores the previous current filter
+    const allowChange = changeCurrentFilter === true;
+    const firstCases = (await runFilter(api, filters, first, max, allowChange)).cases;
+    const { cases: secondCases, warning } = await runFilter(api, filters, second, max, allowChange);
+
+    const firstIds = new Set(firstCases.map(bugCase => bugCase.ixBug));
+    const secondIds = new Set(secondCases.map(bugCase => bugCase.ixBug));
+    const onlyInFirst = firstCases.filter(bugCase => !secondIds.has(bugCase.ixBug));
+    const onlyInSecond = secondCases.filter(bugCase => !firstIds.has(bugCase.ixBug));
+    const inBoth = firstCases.filter(bugCase => secondIds.has(bugCase.ixBug));
+
+    // Generate a response
+    return JSON.stringify({
+      filterA: { id: first.sFilter, name: first.name, count: firstCases.length },
+      filterB: { id: second.sFilter, name: second.name, count: secondCases.length },
+      onlyInA: onlyInFirst.map(bugCase => formatCaseSummary(api, bugCase)),
+      onlyInB: onlyInSecond.map(bugCase => formatCaseSummary(api, bugCase)),
+      inBoth: inBoth.map(bugCase => bugCase.ixBug),
+      warning,
+      message: `"${first.name}" and "${second.name}" share ${inBoth.length} cases; ` +
+        `${onlyInFirst.length} are only in "${first.name}" and ${onlyInSecond.length} only in "${second.name}".`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * FogBugz user types, indexed by nType
+ */
+const PERSON_TYPES = ['normal', 'administrator', 'community', 'virtual'];
+
+/**
+ * Describes a person's user type from nType or, if missing, their permission flags
+ */
+function getPersonType(person: FogBugzPerson): string {
+  if (person.nType !== undefined && PERSON_TYPES[person.nType]) return PERSON_TYPES[person.nType];
+  if (person.fAdministrator) return 'administrator';
+  if (person.fCommunity) return 'community';
+  if (person.fVirtual) return 'virtual';
+  return 'normal';
+}
+
+/**
+ * Formats a person for tool output
+ */
+function formatPerson(person: FogBugzPerson): Record<string, any> {
+  return {
+    id: person.ixPerson,
+    name: person.sFullName || person.sPerson,
+    email: person.sEmail,
+    phone: person.sPhone || undefined,
+    type: getPersonType(person),
+    active: !person.fDeleted,
+    notify: person.fNotify,
+    locale: person.sLocale,
+    language: person.sLanguage,
+    timeZone: person.sTimeZoneKey,
+    homepage: person.sHomepage || undefined,
+    workingOnCaseId: person.ixBugWorkingOn || undefined,
+  };
+}
+
+/**
+ * Looks up a person by ID, email or full name, including inactive people
+ */
+async function lookupPerson(api: FogBugzApi, nameOrId: string | number, options: ResolveOptions = {}): Promise<FogBugzPerson> {
+  if (!isNaN(Number(nameOrId))) {
+    return api.viewPerson({ ixPerson: Number(nameOrId) });
+  }
+  return resolvePerson(api, nameOrId, true, options);
+}
+
+/**
+ * Converts a userType argument to nType, refusing unless the server allows administrator changes
+ */
+function toPersonType(api: FogBugzApi, userType: string): number {
+  requireAdminChanges(api, 'Changing user types');
+  const nType = PERSON_TYPES.indexOf(String(userType).toLowerCase());
+  if (nType === -1) {
+    throw new Error(`Unknown user type "${userType}"; expected one of ${PERSON_TYPES.join(', ')}`);
+  }
+  return nType;
+}
+
+/**
+ * Fails unless the server was started with administrator-only changes allowed
+ */
+function requireAdminChanges(api: FogBugzApi, action: string): void {
+  if (!api.canMakeAdminChanges()) {
+    throw new Error(`${action} is disabled; set FOGBUGZ_ALLOW_ADMIN_CHANGES=true to allow it`);
+  }
+}
+
+/**
+ * Lists people with their user type and active state
+ */
+export async function listPeople(api: FogBugzApi, args: any): Promise<string> {
+  const { includeInactive, includeCommunity, includeVirtual } = args;
+
+  try {
+    const people = await api.listPeople({
+      fIncludeActive: true,
+      fIncludeNormal: true,
+      fIncludeDeleted: includeInactive === true,
+      fIncludeCommunity: includeCommunity === true,
+      fIncludeVirtual: includeVirtual === true,
+    });
+
+    // Generate a response
+    return JSON.stringify({
+      count: people.length,
+      people: people.map(formatPerson),
+      message: `Found ${people.length} people.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Shows a single person
+ */
+export async function viewPerson(api: FogBugzApi, args: any): Promise<string> {
+  const { person } = args;
+
+  try {
+    const match = person !== undefined ? await lookupPerson(api, person, { fuzzy: true }) : await api.getCurrentUser();
+
+    // Generate a response
+    return JSON.stringify({
+      person: formatPerson(match),
+      message: `${match.sFullName || match.sPerson} <${match.sEmail}> is ${match.fDeleted ? 'inactive' : 'active'}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+      candidates: error.candidates,
+    });
+  }
+}
+
+/**
+ * Creates a new user
+ */
+export async function createPerson(api: FogBugzApi, args: any): Promise<string> {
+  const {
+    email,
+    fullName,
+    userType,
+    password,
+    phone,
+    locale,
+    language,
+    timeZone,
+    homepage,
+    notify,
+  } = args;
+
+  try {
+    requireAdminChanges(api, 'Creating users');
+
+    // Prepare person parameters
+    const params: CreatePersonParams = {
+      sEmail: email,
+      sFullname: fullName,
+    };
+
+    // Add optional parameters if provided
+    if (userType !== undefined) params.nType = toPersonType(api, userType);
+    if (password) params.sPassword = password;
+    if (phone !== undefined) params.sPhone = phone;
+    if (locale !== undefined) params.sLocale = locale;
+    if (language !== undefined) params.sLanguage = language;
+    if (timeZone !== undefined) params.sTimeZoneKey = timeZone;
+    if (homepage !== undefined) params.sHomepage = homepage;
+    if (notify !== undefined) params.fNotify = notify;
+
+    const person = await api.createPerson(params);
+
+    // Generate a response
+    return JSON.stringify({
+      person: formatPerson(person),
+      message: `Created user ${person.sFullName} <${person.sEmail}> (ID: ${person.ixPerson}).`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Edits a user's details; setting active to false deactivates them without losing their history
+ */
+export async function editPerson(api: FogBugzApi, args: any): Promise<string> {
+  const {
+    person,
+    email,
+    fullName,
+    phone,
+    locale,
+    language,
+    timeZone,
+    homepage,
+    notify,
+    userType,
+    active,
+  } = args;
+
+  try {
+    const match = await lookupPerson(api, person);
+
+    // Prepare person parameters, sending only what changes
+    const params: EditPersonParams = { ixPerson: match.ixPerson };
+    if (email !== undefined) params.sEmail = email;
+    if (fullName !== undefined) params.sFullname = fullName;
+    if (phone !== undefined) params.sPhone = phone;
+    if (locale !== undefined) params.sLocale = locale;
+    if (language !== undefined) params.sLanguage = language;
+    if (timeZone !== undefined) params.sTimeZoneKey = timeZone;
+    if (homepage !== undefined) params.sHomepage = homepage;
+    if (notify !== undefined) params.fNotify = notify;
+    if (userType !== undefined) params.nType = toPersonType(api, userType);
+    if (active !== undefined) {
+      requireAdminChanges(api, 'Deactivating and reactivating users');
+      params.fDeleted = !active;
+    }
+
+    if (Object.keys(params).length === 1) {
+      throw new Error('No changes given');
+    }
+
+    const updated = await api.editPerson(params);
+
+    // Generate a response
+    return JSON.stringify({
+      person: formatPerson(updated),
+      message: `Updated user ${updated.sFullName || match.sFullName} (ID: ${match.ixPerson}).`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+      candidates: error.candidates,
+    });
+  }
+}
+
+/**
+ * Lists the snippets available to the current user
+ */
+export async function listSnippets(api: FogBugzApi, args: any): Promise<string> {
+  const { globalOnly } = args;
+
+  try {
+    const snippets = await api.listSnippets(globalOnly === true);
+
+    // Generate a response
+    return JSON.stringify({
+      count: snippets.length,
+      snippets: snippets.map(snippet => ({
+        id: snippet.ixSnippet,
+        name: snippet.sName,
+        comment: snippet.sComment || undefined,
+        text: snippet.s,
+      })),
+      message: `Found ${snippets.length} snippets.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Formats a status for tool output
+ */
+function formatStatus(status: FogBugzStatus, categories: FogBugzCategory[]): Record<string, any> {
+  return {
+    id: status.ixStatus,
+    name: status.sStatus,
+    categoryId: status.ixCategory,
+    category: categories.find(category => category.ixCategory === status.ixCategory)?.sCategory,
+    resolved: status.fResolved === true,
+    workDone: status.fWorkDone === true,
+    duplicate: status.fDuplicate === true,
+    deleted: status.fDeleted === true,
+  };
+}
+
+/**
+ * Lists case categories with their default statuses
+ */
+export async function listCategories(api: FogBugzApi, args: any): Promise<string> {
+  const { includeDeleted } = args;
+
+  try {
+    const [categories, statuses] = await Promise.all([api.listCategories(), api.listStatuses()]);
+    const statusNames = new Map(statuses.map(status => [status.ixStatus, status.sStatus]));
+    const shown = categories.filter(category => includeDeleted || !category.fDeleted);
+
+    // Generate a response
+    return JSON.stringify({
+      count: shown.length,
+      categories: shown.map(category => ({
+        id: category.ixCategory,
+        name: category.sCategory,
+        plural: category.sPlural,
+        defaultStatus: category.ixStatusDefault !== undefined ? statusNames.get(category.ixStatusDefault) : undefined,
+        defaultActiveStatus: category.ixStatusDefaultActive !== undefined ? statusNames.get(category.ixStatusDefaultActive) : undefined,
+        isScheduleItem: category.fIsScheduleItem === true,
+        deleted: category.fDeleted === true,
+      })),
+      message: `Found ${shown.length} categories.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Lists statuses grouped by category, optionally for one category or only resolved statuses
+ */
+export async function listStatuses(api: FogBugzApi, args: any): Promise<string> {
+  const { category, resolvedOnly, includeDeleted } = args;
+
+  try {
+    const categories = await api.listCategories();
+    let categoryId: number | undefined;
+    if (category !== undefined) {
+      const match = findCategory(categories, category);
+      if (!match) {
+        throw new Error(`No category found matching "${category}"`);
+      }
+      categoryId = match.ixCategory;
+    }
+
+    const statuses = (await api.listStatuses(categoryId, resolvedOnly === true))
+      .filter(status => includeDeleted || !status.fDeleted);
+
+    // Group by category, in category order
+    const groups = categories
+      .map(match => ({
+        categoryId: match.ixCategory,
+        category: match.sCategory,
+        statuses: statuses
+          .filter(status => status.ixCategory === match.ixCategory)
+          .map(status => formatStatus(status, categories)),
+      }))
+      .filter(group => group.statuses.length > 0);
+
+    // Generate a response
+    return JSON.stringify({
+      count: statuses.length,
+      categories: groups,
+      message: `Found ${statuses.length} statuses across ${groups.length} categories.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Looks up a status by ID, or by name within an optional category
+ */
+export async function viewStatus(api: FogBugzApi, args: any): Promise<string> {
+  const { status, category } = args;
+
+  try {
+    const categories = await api.listCategories();
+
+    let matches: FogBugzStatus[];
+    if (!isNaN(Number(status))) {
+      matches = [await api.viewStatus(Number(status))];
+    } else {
+      const categoryId = category !== undefined ? findCategory(categories, category)?.ixCategory : undefined;
+      if (category !== undefined && categoryId === undefined) {
+        throw new Error(`No category found matching "${category}"`);
+      }
+      const wanted = normalizeStatusName(String(status));
+      matches = (await api.listStatuses(categoryId))
+        .filter(candidate => normalizeStatusName(candidate.sStatus) === wanted);
+    }
+
+    if (matches.length === 0) {
+      throw new Error(`No status found matching "${status}"${category !== undefined ? ` in category "${category}"` : ''}`);
+    }
+
     // Generate a response
-    const caseLink = api.getCaseLink(updatedCase.ixBug);
     return JSON.stringify({
-      caseId: updatedCase.ixBug,
-      caseLink,
-      message: `Updated case #${updatedCase.ixBug}${title ? ': "' + title + '"' : ''}.`,
+      statuses: matches.map(match => formatStatus(match, categories)),
+      message: matches.length === 1
+        ? `Status "${matches[0].sStatus}" has ID ${matches[0].ixStatus}.`
+        : `"${status}" matches ${matches.length} statuses in different categories; pass a category to pick one.`,
     });
   } catch (error: any) {
     return JSON.stringify({
@@ -132,21 +3054,22 @@ export async function updateCase(api: FogBugzApi, args: any): Promise<string> {
 }
 
 /**
- * Assigns a FogBugz case to a user
+ * Lists the custom and plugin fields defined on the instance
  */
-export async function assignCase(api: FogBugzApi, args: any): Promise<string> {
-  const { caseId, assignee } = args;
-
+export async function listCustomFields(api: FogBugzApi, args: any): Promise<string> {
   try {
-    // Assign the case
-    const updatedCase = await api.assignCase(caseId, assignee);
-    
+    const fields = await api.listCustomFields();
+
     // Generate a response
-    const caseLink = api.getCaseLink(updatedCase.ixBug);
     return JSON.stringify({
-      caseId: updatedCase.ixBug,
-      caseLink,
-      message: `Assigned case #${updatedCase.ixBug} to ${assignee}.`,
+      count: fields.length,
+      fields: fields.map(field => ({
+        name: field.sDisplayName || field.sFieldName,
+        column: field.sFieldName,
+        type: field.sType,
+        choices: field.rgsChoices,
+      })),
+      message: `Found ${fields.length} custom fields.`,
     });
   } catch (error: any) {
     return JSON.stringify({
@@ -159,7 +3082,7 @@ export async function assignCase(api: FogBugzApi, args: any): Promise<string> {
  * Lists FogBugz cases assigned to a user
  */
 export async function listUserCases(api: FogBugzApi, args: any): Promise<string> {
-  const { assignee, status, limit } = args;
+  const { assignee, status, limit, fields } = args;
 
   try {
     // Create query for assigned cases
@@ -177,10 +3100,11 @@ export async function listUserCases(api: FogBugzApi, args: any): Promise<string>
       query += ' status:active';
     }
     
-    // Get cases assigned to the user
+    // Get cases assigned to the user, with only the requested columns if given
+    const columns = fields ? await resolveFieldColumns(api, fields) : undefined;
     const cases = await api.searchCases({
       q: query,
-      cols: [
+      cols: columns ? ['ixBug', ...columns.map(({ column }) => column)] : [
         'ixBug',
         'sTitle',
         'sStatus',
@@ -188,21 +3112,25 @@ export async function listUserCases(api: FogBugzApi, args: any): Promise<string>
         'sProject',
         'sArea',
         'sFixFor',
+        'tags',
       ],
       max: limit || 20,
     });
     
     // Format case information
-    const formattedCases = cases.map(bugCase => ({
-      id: bugCase.ixBug,
-      title: bugCase.sTitle,
-      status: bugCase.sStatus,
-      priority: bugCase.sPriority,
-      project: bugCase.sProject,
-      area: bugCase.sArea,
-      milestone: bugCase.sFixFor,
-      link: api.getCaseLink(bugCase.ixBug),
-    }));
+    const formattedCases = cases.map(bugCase => (columns
+      ? { ...pickCaseFields(bugCase, columns), link: api.getCaseLink(bugCase.ixBug) }
+      : {
+          id: bugCase.ixBug,
+          title: bugCase.sTitle,
+          status: bugCase.sStatus,
+          priority: bugCase.sPriority,
+          project: bugCase.sProject,
+          area: bugCase.sArea,
+          milestone: bugCase.sFixFor,
+          tags: getCaseTags(bugCase),
+          link: api.getCaseLink(bugCase.ixBug),
+        }));
     
     // Generate a response
     const userDisplay = assignee || 'current user';
@@ -223,37 +3151,21 @@ export async function listUserCases(api: FogBugzApi, args: any): Promise<string>
  * Searches for FogBugz cases
  */
 export async function searchCases(api: FogBugzApi, args: any): Promise<string> {
-  const { query, limit } = args;
+  const { query, limit, fields } = args;
 
   try {
-    // Search for cases
+    // Search for cases, with only the requested columns if given
+    const columns = fields ? await resolveFieldColumns(api, fields) : undefined;
     const cases = await api.searchCases({
       q: query,
-      cols: [
-        'ixBug',
-        'sTitle',
-        'sStatus',
-        'sPriority',
-        'sProject',
-        'sArea',
-        'sFixFor',
-        'sPersonAssignedTo',
-      ],
+      cols: columns ? ['ixBug', ...columns.map(({ column }) => column)] : CASE_SUMMARY_COLS,
       max: limit || 20,
     });
     
     // Format case information
-    const formattedCases = cases.map(bugCase => ({
-      id: bugCase.ixBug,
-      title: bugCase.sTitle,
-      status: bugCase.sStatus,
-      priority: bugCase.sPriority,
-      project: bugCase.sProject,
-      area: bugCase.sArea,
-      milestone: bugCase.sFixFor,
-      assignee: bugCase.sPersonAssignedTo,
-      link: api.getCaseLink(bugCase.ixBug),
-    }));
+    const formattedCases = cases.map(bugCase => (columns
+      ? { ...pickCaseFields(bugCase, columns), link: api.getCaseLink(bugCase.ixBug) }
+      : formatCaseSummary(api, bugCase)));
     
     // Generate a response
     return JSON.stringify({
@@ -291,42 +3203,83 @@ export async function getCaseLink(api: FogBugzApi, args: any): Promise<string> {
   }
 }
 
+/**
+ * Formats a case event, spelling out email details so the direction of
+ * correspondence is obvious
+ */
+function formatEvent(event: FogBugzEvent): Record<string, any> {
+  const formatted: Record<string, any> = {
+    id: event.ixBugEvent,
+    person: event.sPerson,
+    verb: event.sVerb,
+    text: event.sText || event.sHTML || event.s,
+    description: event.s,
+    date: event.dt,
+  };
+
+  if (event.fEmail) {
+    // fExternal marks mail that arrived from outside; the rest was sent from FogBugz
+    formatted.email = {
+      direction: event.fExternal ? 'incoming' : 'outgoing',
+      from: event.sFrom,
+      to: event.sTo,
+      cc: event.sCC,
+      bcc: event.sBCC,
+      subject: event.sSubject,
+    };
+  }
+
+  return formatted;
+}
+
 /**
  * Views detailed information about a FogBugz case
  */
 export async function viewCase(api: FogBugzApi, args: any): Promise<string> {
-  const { caseId, includeEvents } = args;
+  const { caseId, includeEvents, includeCheckins, fields } = args;
 
   try {
-    // View the case
-    const caseData = await api.viewCase(caseId, includeEvents || false);
+    // View the case, with only the requested columns if given
+    const columns = fields ? await resolveFieldColumns(api, fields) : undefined;
+    const caseData = await api.viewCase(
+      caseId,
+      includeEvents || false,
+      columns && [...columns.map(({ column }) => column), 'sTitle']
+    );
 
     // Generate case link
     const caseLink = api.getCaseLink(caseId);
 
     // Format case information
-    const formattedCase: any = {
-      id: caseData.ixBug,
-      title: caseData.sTitle,
-      status: caseData.sStatus,
-      priority: caseData.sPriority,
-      project: caseData.sProject,
-      area: caseData.sArea,
-      milestone: caseData.sFixFor,
-      assignee: caseData.sPersonAssignedTo,
-      link: caseLink,
-    };
+    const formattedCase: any = columns
+      ? { ...pickCaseFields(caseData, columns), link: caseLink }
+      : {
+          id: caseData.ixBug,
+          title: caseData.sTitle,
+          status: caseData.sStatus,
+          priority: caseData.sPriority,
+          project: caseData.sProject,
+          area: caseData.sArea,
+          milestone: caseData.sFixFor,
+          assignee: caseData.sPersonAssignedTo,
+          parentCaseId: caseData.ixBugParent || null,
+          subcaseIds: getChildCaseIds(caseData),
+          tags: getCaseTags(caseData),
+          estimateHours: caseData.hrsCurrEst,
+          elapsedHours: caseData.hrsElapsed,
+          storyPoints: caseData.dblStoryPts,
+          dueDate: caseData.dtDue || null,
+          link: caseLink,
+        };
 
     // Include events if requested
     if (includeEvents && caseData.events) {
-      formattedCase.events = caseData.events.map(event => ({
-        id: event.ixBugEvent,
-        person: event.sPerson,
-        verb: event.sVerb,
-        text: event.sText || event.sHTML || event.s,
-        description: event.s,
-        date: event.dt,
-      }));
+      formattedCase.events = caseData.events.map(formatEvent);
+    }
+
+    // Include linked commits if requested
+    if (includeCheckins) {
+      formattedCase.commits = groupCheckins(await api.listCheckins(caseId));
     }
 
     // Generate a response
@@ -359,24 +3312,10 @@ export async function createProject(api: FogBugzApi, args: any): Promise<string>
     };
 
     // Add optional parameters if provided
-    // For primaryContact, we need to use the ixPersonPrimaryContact parameter
     if (primaryContact) {
-      try {
-        // If primaryContact is a number, use it directly
-        if (!isNaN(Number(primaryContact))) {
-          params.ixPersonPrimaryContact = Number(primaryContact);
-        } else {
-          // Otherwise, try to find the person ID from the name
-          // We know Akari Lara has ID 2 from the API explorer output
-          if (primaryContact === 'Akari Lara') {
-            params.ixPersonPrimaryContact = 2;
-          }
-        }
-      } catch (err) {
-        console.error('Error setting primary contact:', err);
-      }
+      params.ixPersonPrimaryContact = await resolvePersonId(api, primaryContact);
     }
-    
+
     if (isInbox !== undefined) params.fInbox = isInbox;
     if (allowPublicSubmit !== undefined) params.fAllowPublicSubmit = allowPublicSubmit;
 
@@ -389,6 +3328,388 @@ export async function createProject(api: FogBugzApi, args: any): Promise<string>
       projectName: newProject.sProject,
       message: `Created new project: "${newProject.sProject}" (ID: ${newProject.ixProject})`,
     });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+      candidates: error.candidates,
+    });
+  }
+}
+
+/**
+ * Maps person IDs to names, for showing project and area owners
+ */
+async function getPersonNames(api: FogBugzApi): Promise<Map<number, string>> {
+  const people = await api.listPeople({ fIncludeDeleted: true, fIncludeVirtual: true });
+  return new Map(people.map(person => [person.ixPerson, person.sFullName || person.sPerson || person.sEmail]));
+}
+
+/**
+ * Formats a project for tool output
+ */
+function formatProject(project: FogBugzProject, personNames: Map<number, string>): Record<string, any> {
+  return {
+    id: project.ixProject,
+    name: project.sProject,
+    primaryContactId: project.ixPersonOwner,
+    primaryContact: project.sPersonOwner || (project.ixPersonOwner !== undefined ? personNames.get(project.ixPersonOwner) : undefined),
+    isInbox: project.fInbox,
+    allowPublicSubmit: project.fAllowPublicSubmit,
+    publicSubmitEmail: project.sPublicSubmitEmail || undefined,
+    deleted: project.fDeleted,
+  };
+}
+
+/**
+ * Formats an area for tool output
+ */
+function formatArea(area: FogBugzArea, personNames: Map<number, string>): Record<string, any> {
+  return {
+    id: area.ixArea,
+    name: area.sArea,
+    projectId: area.ixProject,
+    project: area.sProject,
+    ownerId: area.ixPersonOwner,
+    owner: area.sPersonOwner || (area.ixPersonOwner !== undefined ? personNames.get(area.ixPersonOwner) : undefined),
+    deleted: area.fDeleted,
+  };
+}
+
+/**
+ * Lists FogBugz projects with their primary contacts
+ */
+export async function listProjects(api: FogBugzApi, args: any): Promise<string> {
+  const { includeDeleted } = args;
+
+  try {
+    const [projects, personNames] = await Promise.all([
+      api.listProjects(includeDeleted === true),
+      getPersonNames(api),
+    ]);
+
+    // Generate a response
+    return JSON.stringify({
+      count: projects.length,
+      projects: projects.map(project => formatProject(project, personNames)),
+      message: `Found ${projects.length} projects.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Shows a project and its areas
+ */
+export async function viewProject(api: FogBugzApi, args: any): Promise<string> {
+  const { project } = args;
+
+  try {
+    const projectId = await resolveProjectId(api, project, { fuzzy: true });
+    const [details, areas, personNames] = await Promise.all([
+      api.viewProject(projectId),
+      api.listAreas(projectId),
+      getPersonNames(api),
+    ]);
+
+    // Generate a response
+    return JSON.stringify({
+      project: formatProject(details, personNames),
+      areas: areas.map(area => formatArea(area, personNames)),
+      message: `Project "${details.sProject}" (ID: ${details.ixProject}) has ${areas.length} areas.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+      candidates: error.candidates,
+    });
+  }
+}
+
+/**
+ * Edits a project's name, primary contact or submission settings
+ */
+export async function editProject(api: FogBugzApi, args: any): Promise<string> {
+  const {
+    project,
+    name,
+    primaryContact,
+    isInbox,
+    allowPublicSubmit
+  } = args;
+
+  try {
+    const projectId = await resolveProjectId(api, project);
+
+    // Prepare project parameters, sending only what changes
+    const params: EditProjectParams = { ixProject: projectId };
+    if (name !== undefined) params.sProject = name;
+    if (primaryContact !== undefined) params.ixPersonPrimaryContact = await resolvePersonId(api, primaryContact);
+    if (isInbox !== undefined) params.fInbox = isInbox;
+    if (allowPublicSubmit !== undefined) params.fAllowPublicSubmit = allowPublicSubmit;
+
+    if (Object.keys(params).length === 1) {
+      throw new Error('No changes given');
+    }
+
+    const updated = await api.editProject(params);
+
+    // Generate a response
+    return JSON.stringify({
+      project: formatProject(updated, await getPersonNames(api)),
+      message: `Updated project "${updated.sProject}" (ID: ${projectId}).`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+      candidates: error.candidates,
+    });
+  }
+}
+
+/**
+ * Lists areas, optionally for one project
+ */
+export async function listAreas(api: FogBugzApi, args: any): Promise<string> {
+  const { project } = args;
+
+  try {
+    const projectId = project !== undefined ? await resolveProjectId(api, project, { fuzzy: true }) : undefined;
+    const [areas, personNames] = await Promise.all([
+      api.listAreas(projectId),
+      getPersonNames(api),
+    ]);
+
+    // Generate a response
+    return JSON.stringify({
+      count: areas.length,
+      areas: areas.map(area => formatArea(area, personNames)),
+      message: `Found ${areas.length} areas${project !== undefined ? ` in project "${project}"` : ''}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+      candidates: error.candidates,
+    });
+  }
+}
+
+/**
+ * Shows a single area
+ */
+export async function viewArea(api: FogBugzApi, args: any): Promise<string> {
+  const { area, project } = args;
+
+  try {
+    const match = !isNaN(Number(area))
+      ? await api.viewArea(Number(area))
+      : await resolveArea(
+        api,
+        area,
+        project !== undefined ? await resolveProjectId(api, project, { fuzzy: true }) : undefined,
+        { fuzzy: true }
+      );
+
+    // Generate a response
+    return JSON.stringify({
+      area: formatArea(match, await getPersonNames(api)),
+      message: `Area "${match.sArea}" (ID: ${match.ixArea}) belongs to project ${match.sProject || match.ixProject}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+      candidates: error.candidates,
+    });
+  }
+}
+
+/**
+ * Creates an area in a project; without an owner, the project's primary contact owns it
+ */
+export async function createArea(api: FogBugzApi, args: any): Promise<string> {
+  const { project, name, owner } = args;
+
+  try {
+    const params: CreateAreaParams = {
+      ixProject: await resolveProjectId(api, project),
+      sArea: name,
+      ixPersonPrimaryContact: owner !== undefined ? await resolvePersonId(api, owner) : -1,
+    };
+
+    const area = await api.createArea(params);
+
+    // Generate a response
+    return JSON.stringify({
+      areaId: area.ixArea,
+      areaName: area.sArea,
+      projectId: area.ixProject,
+      message: `Created area "${area.sArea}" (ID: ${area.ixArea}) in project ${params.ixProject}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+      candidates: error.candidates,
+    });
+  }
+}
+
+/**
+ * Creates a project and its areas in one go. Area failures are reported rather than
+ * thrown, since the project already exists by then.
+ */
+export async function createProjectWithAreas(api: FogBugzApi, args: any): Promise<string> {
+  const {
+    name,
+    primaryContact,
+    isInbox,
+    allowPublicSubmit,
+    areas
+  } = args;
+
+  try {
+    if (!Array.isArray(areas) || areas.length === 0) {
+      throw new Error('areas must list at least one area');
+    }
+
+    // Resolve every person up front so a typo doesn't leave a half-built project
+    const params: CreateProjectParams = { sProject: name };
+    if (primaryContact) params.ixPersonPrimaryContact = await resolvePersonId(api, primaryContact);
+    if (isInbox !== undefined) params.fInbox = isInbox;
+    if (allowPublicSubmit !== undefined) params.fAllowPublicSubmit = allowPublicSubmit;
+
+    const areaSpecs: Array<{ name: string; ownerId: number }> = [];
+    for (const area of areas) {
+      const spec = typeof area === 'string' ? { name: area } : area;
+      areaSpecs.push({
+        name: spec.name,
+        ownerId: spec.owner !== undefined ? await resolvePersonId(api, spec.owner) : -1,
+      });
+    }
+
+    const project = await api.createProject(params);
+
+    // FogBugz may create a default area with a new project; don't create it twice
+    const existing = new Set((await api.listAreas(project.ixProject)).map(area => area.sArea.toLowerCase()));
+
+    const created: Array<{ id: number; name: string }> = [];
+    const skipped: string[] = [];
+    const failed: Array<{ name: string; error: string }> = [];
+    for (const spec of areaSpecs) {
+      if (existing.has(spec.name.toLowerCase())) {
+        skipped.push(spec.name);
+        continue;
+      }
+      try {
+        const area = await api.createArea({
+          ixProject: project.ixProject,
+          sArea: spec.name,
+          ixPersonPrimaryContact: spec.ownerId,
+        });
+        created.push({ id: area.ixArea, name: area.sArea });
+      } catch (error: any) {
+        failed.push({ name: spec.name, error: error.message });
+      }
+    }
+
+    // Generate a response
+    return JSON.stringify({
+      projectId: project.ixProject,
+      projectName: project.sProject,
+      createdAreas: created,
+      existingAreas: skipped,
+      failedAreas: failed,
+      message: `Created project "${project.sProject}" (ID: ${project.ixProject}) with ${created.length} new areas` +
+        (failed.length > 0 ? `; ${failed.length} areas failed.` : '.'),
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+      candidates: error.candidates,
+    });
+  }
+}
+
+/**
+ * Splits an address like "Support" <support@example.com> into its display name and address
+ */
+function parseEmailAddress(value: string): { name?: string; address: string } {
+  const match = value.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+  if (!match) return { address: value.trim() };
+  return { name: match[1] || undefined, address: match[2].trim() };
+}
+
+/**
+ * The API documents only a mailbox's address, reply-from address and signature; where it
+ * routes new cases and how it auto-replies are set up in FogBugz but not returned
+ */
+const MAILBOX_SETTINGS_NOT_RETURNED =
+  'FogBugz didn\'t return routing or auto-reply settings; check the mailbox settings in FogBugz itself';
+
+/**
+ * Formats a mailbox's documented fields, passing on anything else the instance returned as is
+ */
+function formatMailbox(mailbox: FogBugzMailbox): Record<string, any> {
+  const { ixMailbox, sEmail, sEmailUser, sTemplate, ...otherFields } = mailbox;
+  const { name, address } = parseEmailAddress(sEmail);
+
+  return {
+    id: ixMailbox,
+    name,
+    address,
+    replyFrom: sEmailUser,
+    signature: sTemplate || undefined,
+    otherFields: Object.keys(otherFields).length > 0 ? otherFields : undefined,
+    routingAndAutoReply: MAILBOX_SETTINGS_NOT_RETURNED,
+  };
+}
+
+/**
+ * Lists the mailboxes with their addresses
+ */
+export async function listMailboxes(api: FogBugzApi, args: any): Promise<string> {
+  try {
+    const mailboxes = await api.listMailboxes();
+
+    // Generate a response
+    return JSON.stringify({
+      count: mailboxes.length,
+      mailboxes: mailboxes.map(formatMailbox),
+      message: `Found ${mailboxes.length} mailboxes. ${MAILBOX_SETTINGS_NOT_RETURNED}.`,
+    });
+  } catch (error: any) {
+    return JSON.stringify({
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Shows a mailbox, found by ID or email address
+ */
+export async function viewMailbox(api: FogBugzApi, args: any): Promise<string> {
+  const { mailbox } = args;
+
+  try {
+    let mailboxId = Number(mailbox);
+    if (isNaN(mailboxId)) {
+      const wanted = String(mailbox).toLowerCase();
+      const match = (await api.listMailboxes())
+        .find(candidate => parseEmailAddress(candidate.sEmail).address.toLowerCase() === wanted);
+      if (!match) {
+        throw new Error(`No mailbox found with address "${mailbox}"`);
+      }
+      mailboxId = match.ixMailbox;
+    }
+
+    const formatted = formatMailbox(await api.viewMailbox(mailboxId));
+
+    // Generate a response
+    return JSON.stringify({
+      mailbox: formatted,
+      message: `Mailbox ${formatted.address} (ID: ${formatted.id}). ${MAILBOX_SETTINGS_NOT_RETURNED}.`,
+    });
   } catch (error: any) {
     return JSON.stringify({
       error: error.message,
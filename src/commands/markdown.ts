@@ -0,0 +1,32 @@
+import { marked } from 'marked';
+import TurndownService from 'turndown';
+
+/**
+ * Conversion between FogBugz wiki HTML and Markdown, so that the LLM can
+ * read and write article bodies as Markdown
+ */
+
+const turndown = new TurndownService({
+  headingStyle: 'atx',
+  codeBlockStyle: 'fenced',
+  bulletListMarker: '-',
+  emDelimiter: '*',
+});
+
+// Markdown has no good equivalent for tables, so keep them as HTML, which
+// survives the round trip back through marked unchanged
+turndown.keep(['table']);
+
+/**
+ * Converts an HTML article body to Markdown
+ */
+export function htmlToMarkdown(html: string): string {
+  return turndown.turndown(html || '');
+}
+
+/**
+ * Converts a Markdown article body to HTML
+ */
+export function markdownToHtml(markdown: string): string {
+  return (marked.parse(markdown || '', { async: false }) as string).trim();
+}
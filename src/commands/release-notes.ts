@@ -0,0 +1,57 @@
+/**
+ * Rendering of milestone release notes as Markdown, HTML or plain text
+ */
+
+export type ReleaseNotesFormat = 'markdown' | 'html' | 'text';
+
+export interface ReleaseNoteEntry {
+  caseId: number;
+  note: string;
+}
+
+export interface ReleaseNoteGroup {
+  name: string;
+  entries: ReleaseNoteEntry[];
+}
+
+/**
+ * Escapes text for inclusion in HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Renders grouped release notes under a title
+ */
+export function renderReleaseNotes(
+  title: string,
+  groups: ReleaseNoteGroup[],
+  format: ReleaseNotesFormat = 'markdown'
+): string {
+  if (format === 'html') {
+    const sections = groups.map(group =>
+      `<h2>${escapeHtml(group.name)}</h2>\n<ul>\n` +
+      group.entries.map(entry => `  <li>${escapeHtml(entry.note)} (#${entry.caseId})</li>`).join('\n') +
+      '\n</ul>'
+    );
+    return [`<h1>${escapeHtml(title)}</h1>`, ...sections].join('\n');
+  }
+
+  if (format === 'text') {
+    const sections = groups.map(group =>
+      `${group.name}\n${'-'.repeat(group.name.length)}\n` +
+      group.entries.map(entry => `* ${entry.note} (#${entry.caseId})`).join('\n')
+    );
+    return [`${title}\n${'='.repeat(title.length)}`, ...sections].join('\n\n');
+  }
+
+  const sections = groups.map(group =>
+    `## ${group.name}\n\n` + group.entries.map(entry => `- ${entry.note} (#${entry.caseId})`).join('\n')
+  );
+  return [`# ${title}`, ...sections].join('\n\n');
+}
@@ -0,0 +1,284 @@
+/**
+ * Resolves the names people type for projects, areas, milestones, people and
+ * priorities to FogBugz records, so handlers send IDs instead of hoping
+ * FogBugz matches a free-text name. Matching is case-insensitive and falls
+ * back from exact names to prefixes, substrings and near misses; when more
+ * than one record fits equally well a ResolveError lists the candidates.
+ * Only IDs and exact names are accepted unless the caller asks for fuzzy
+ * matching, so a typo can't make a change to the wrong record.
+ */
+import { FogBugzApi } from '../api';
+import {
+  FogBugzArea,
+  FogBugzFixFor,
+  FogBugzPerson,
+  FogBugzPriority,
+  FogBugzProject,
+} from '../api/types';
+
+export interface ResolveCandidate {
+  id: number;
+  name: string;
+}
+
+/**
+ * Raised when a name matches no record, or several records equally well.
+ * Handlers pass the candidates on so the caller can pick one.
+ */
+export class ResolveError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: string,
+    public readonly query: string,
+    public readonly candidates: ResolveCandidate[]
+  ) {
+    super(message);
+    this.name = 'ResolveError';
+  }
+}
+
+/**
+ * A record with the names it can be found by; the first name is used in messages
+ */
+export interface Named<T> {
+  item: T;
+  id: number;
+  names: string[];
+  label: string;
+}
+
+export interface ResolveOptions {
+  /**
+   * Accept a single prefix, substring or near-miss match; only safe when just reading
+   */
+  fuzzy?: boolean;
+}
+
+/**
+ * Maximum number of suggestions listed when nothing matches
+ */
+const MAX_SUGGESTIONS = 5;
+
+function normalize(name: string): string {
+  return name.toLowerCase().replace(/[\s_.-]+/g, ' ').trim();
+}
+
+/**
+ * Edit distance between two strings
+ */
+export function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function closestDistance(candidate: Named<unknown>, query: string): number {
+  return Math.min(...candidate.names.map(name => levenshtein(normalize(name), query)));
+}
+
+/**
+ * Finds the records that best match a name or ID. Tries, in order: the ID, exact names,
+ * names starting with the query (or with a word that does), names containing it, and
+ * names within a few typos of it. The first tier with any match wins.
+ */
+export function findMatches<T>(candidates: Named<T>[], query: string | number): Named<T>[] {
+  return rankMatches(candidates, query).matches;
+}
+
+/**
+ * Finds the best matches as findMatches does, noting whether they matched by ID or exact name
+ */
+function rankMatches<T>(candidates: Named<T>[], query: string | number): { matches: Named<T>[]; exact: boolean } {
+  const raw = String(query).trim();
+  if (/^\d+$/.test(raw)) {
+    const byId = candidates.filter(candidate => candidate.id === Number(raw));
+    if (byId.length > 0) return { matches: byId, exact: true };
+  }
+
+  const wanted = normalize(raw);
+  if (!wanted) return { matches: [], exact: false };
+  const names = (candidate: Named<T>) => candidate.names.filter(Boolean).map(normalize);
+  const tolerance = Math.max(1, Math.floor(wanted.length / 4));
+
+  const tiers: Array<(candidate: Named<T>) => boolean> = [
+    candidate => names(candidate).some(name => name === wanted),
+    candidate => names(candidate).some(name => name.startsWith(wanted) || name.split(' ').some(word => word.startsWith(wanted))),
+    candidate => names(candidate).some(name => name.includes(wanted)),
+    candidate => closestDistance(candidate, wanted) <= tolerance,
+  ];
+
+  for (const [index, tier] of tiers.entries()) {
+    const matches = candidates.filter(tier);
+    if (matches.length > 0) return { matches, exact: index === 0 };
+  }
+  return { matches: [], exact: false };
+}
+
+/**
+ * Resolves a name or ID to exactly one record, raising a ResolveError with the candidates otherwise.
+ * Without the fuzzy option, names that only match loosely are offered as candidates, not used.
+ */
+export function resolveOne<T>(
+  candidates: Named<T>[],
+  query: string | number,
+  kind: string,
+  options: ResolveOptions = {}
+): T {
+  const { matches, exact } = rankMatches(candidates, query);
+  if (matches.length === 1 && (exact || options.fuzzy)) return matches[0].item;
+
+  if (matches.length > 0 && !exact && !options.fuzzy) {
+    throw new ResolveError(
+      `No ${kind} named exactly "${query}"; did you mean ${matches.map(match => match.label).join(', ')}?`,
+      kind,
+      String(query),
+      matches.map(match => ({ id: match.id, name: match.label }))
+    );
+  }
+
+  if (matches.length > 1) {
+    throw new ResolveError(
+      `"${query}" matches ${matches.length} ${kind}s: ${matches.map(match => match.label).join(', ')}`,
+      kind,
+      String(query),
+      matches.map(match => ({ id: match.id, name: match.label }))
+    );
+  }
+
+  const wanted = normalize(String(query));
+  const suggestions = [...candidates]
+    .sort((a, b) => closestDistance(a, wanted) - closestDistance(b, wanted))
+    .slice(0, MAX_SUGGESTIONS);
+  throw new ResolveError(
+    `No ${kind} found matching "${query}"` +
+      (suggestions.length > 0 ? `; closest: ${suggestions.map(suggestion => suggestion.label).join(', ')}` : ''),
+    kind,
+    String(query),
+    suggestions.map(suggestion => ({ id: suggestion.id, name: suggestion.label }))
+  );
+}
+
+/**
+ * Resolves a project by ID or name
+ */
+export async function resolveProject(
+  api: FogBugzApi,
+  query: string | number,
+  options: ResolveOptions = {}
+): Promise<FogBugzProject> {
+  const projects = await api.listProjects();
+  return resolveOne(
+    projects.map(project => ({ item: project, id: project.ixProject, names: [project.sProject], label: project.sProject })),
+    query,
+    'project',
+    options
+  );
+}
+
+/**
+ * Resolves an area by ID or name, within a project when one is given
+ */
+export async function resolveArea(
+  api: FogBugzApi,
+  query: string | number,
+  ixProject?: number,
+  options: ResolveOptions = {}
+): Promise<FogBugzArea> {
+  const areas = await api.listAreas(ixProject);
+  return resolveOne(
+    areas.map(area => ({
+      item: area,
+      id: area.ixArea,
+      names: [area.sArea],
+      label: ixProject === undefined && area.sProject ? `${area.sArea} (${area.sProject})` : area.sArea,
+    })),
+    query,
+    'area',
+    options
+  );
+}
+
+/**
+ * Resolves a milestone by ID or name. With a project, the project's own milestones are
+ * tried before global ones.
+ */
+export async function resolveMilestone(
+  api: FogBugzApi,
+  query: string | number,
+  ixProject?: number,
+  includeInactive: boolean = true,
+  options: ResolveOptions = {}
+): Promise<FogBugzFixFor> {
+  const milestones = (await api.listMilestones(undefined, includeInactive)).map(fixFor => ({
+    item: fixFor,
+    id: fixFor.ixFixFor,
+    names: [fixFor.sFixFor],
+    label: fixFor.sProject ? `${fixFor.sFixFor} (${fixFor.sProject})` : fixFor.sFixFor,
+  }));
+  if (ixProject === undefined) {
+    return resolveOne(milestones, query, 'milestone', options);
+  }
+
+  const inProject = milestones.filter(milestone => milestone.item.ixProject === ixProject);
+  const { matches, exact } = rankMatches(inProject, query);
+  if (matches.length > 0 && (exact || options.fuzzy)) {
+    return resolveOne(inProject, query, 'milestone', options);
+  }
+  const global = milestones.filter(milestone => !milestone.item.ixProject || milestone.item.ixProject < 1);
+  return resolveOne([...inProject, ...global], query, 'milestone', options);
+}
+
+/**
+ * Resolves a person by ID, full name, user name or email
+ */
+export async function resolvePerson(
+  api: FogBugzApi,
+  query: string | number,
+  includeInactive: boolean = false,
+  options: ResolveOptions = {}
+): Promise<FogBugzPerson> {
+  const people = await api.listPeople({ fIncludeVirtual: true, fIncludeDeleted: includeInactive });
+  return resolveOne(
+    people.map(person => ({
+      item: person,
+      id: person.ixPerson,
+      names: [person.sFullName || '', person.sPerson || '', person.sEmail],
+      label: `${person.sFullName || person.sPerson} <${person.sEmail}>`,
+    })),
+    query,
+    'person',
+    options
+  );
+}
+
+/**
+ * Resolves a priority by ID or name
+ */
+export async function resolvePriority(
+  api: FogBugzApi,
+  query: string | number,
+  options: ResolveOptions = {}
+): Promise<FogBugzPriority> {
+  const priorities = await api.listPriorities();
+  return resolveOne(
+    priorities.map(priority => ({
+      item: priority,
+      id: priority.ixPriority,
+      names: [priority.sPriority],
+      label: `${priority.ixPriority} - ${priority.sPriority}`,
+    })),
+    query,
+    'priority',
+    options
+  );
+}
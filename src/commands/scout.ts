@@ -0,0 +1,61 @@
+/**
+ * Helpers for turning crash reports into stable BugzScout descriptions, so
+ * that repeat crashes are grouped into the same case
+ */
+
+/**
+ * FogBugz only matches on the first 255 characters of sScoutDescription
+ */
+export const MAX_SCOUT_DESCRIPTION_LENGTH = 255;
+
+/**
+ * Number of stack frames that make up a crash signature
+ */
+const SIGNATURE_FRAMES = 3;
+
+/**
+ * Normalizes one line of a stack trace or error message by removing the parts
+ * that vary between runs of the same crash: memory addresses, line and column
+ * numbers, directories and ids
+ */
+export function normalizeStackLine(line: string): string {
+  return line
+    // Memory addresses
+    .replace(/\b0x[0-9a-fA-F]+\b/g, '0x?')
+    // UUIDs
+    .replace(/\b[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}\b/g, '<uuid>')
+    // Directories in Unix and Windows paths, keeping the file name
+    .replace(/(?:[A-Za-z]:)?(?:file:\/\/)?[\\/]?(?:[\w.@~-]+[\\/])+(?=[\w.@-]+\.\w+)/g, '')
+    // file.ext:line:column and file.ext:line
+    .replace(/(\.\w+):\d+(?::\d+)?/g, '$1')
+    // "line 123" as used by Python and others
+    .replace(/\bline \d+/gi, 'line ?')
+    // Any other standalone numbers, such as ids in error messages
+    .replace(/\b\d+\b/g, 'N')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Normalizes a whole stack trace line by line, dropping blank lines
+ */
+export function normalizeStackTrace(stackTrace: string): string[] {
+  return stackTrace
+    .split(/\r?\n/)
+    .map(normalizeStackLine)
+    .filter(line => line.length > 0);
+}
+
+/**
+ * Builds the sScoutDescription for a crash: the normalized error message
+ * followed by the top stack frames, plus the version when one is given
+ */
+export function buildScoutDescription(stackTrace: string, version?: string): string {
+  const [message = 'Unknown error', ...frames] = normalizeStackTrace(stackTrace);
+  const parts = [message, ...frames.slice(0, SIGNATURE_FRAMES)];
+  const suffix = version ? ` - version ${version}` : '';
+
+  const description = parts.join(' | ');
+  const available = MAX_SCOUT_DESCRIPTION_LENGTH - suffix.length;
+  return (description.length > available ? description.slice(0, available) : description) + suffix;
+}
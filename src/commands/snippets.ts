@@ -0,0 +1,59 @@
+/**
+ * Helpers for expanding FogBugz snippets (canned replies) the way the web UI
+ * does, filling in placeholders from the case being commented on
+ */
+
+/**
+ * Values available to snippet placeholders
+ */
+export interface SnippetContext {
+  caseId: number;
+  title?: string;
+  customerEmail?: string;
+  ticket?: string;
+  ticketUrl?: string;
+  userName?: string;
+  userEmail?: string;
+}
+
+export interface ExpandedSnippet {
+  text: string;
+  unresolved: string[];
+}
+
+/**
+ * Placeholder names FogBugz recognizes in snippets, and where each one's value comes from
+ */
+const PLACEHOLDERS: Record<string, (context: SnippetContext) => string | number | undefined> = {
+  case: context => context.caseId,
+  subject: context => context.title,
+  sender: context => context.customerEmail,
+  ticket: context => context.ticket,
+  ticketurl: context => context.ticketUrl,
+  username: context => context.userName,
+  useremail: context => context.userEmail,
+};
+
+/**
+ * Whether a snippet uses placeholders that need the current user's details
+ */
+export function needsUserDetails(text: string): boolean {
+  return /\{user(name|email)\}/i.test(text);
+}
+
+/**
+ * Replaces {placeholder} markers in snippet text. Placeholders with no value, or that
+ * FogBugz doesn't know, are left in the text and reported so nothing is silently dropped.
+ */
+export function expandSnippet(text: string, context: SnippetContext): ExpandedSnippet {
+  const unresolved = new Set<string>();
+  const expanded = text.replace(/\{(\w+)\}/g, (marker, name: string) => {
+    const value = PLACEHOLDERS[name.toLowerCase()]?.(context);
+    if (value === undefined || value === '') {
+      unresolved.add(marker);
+      return marker;
+    }
+    return String(value);
+  });
+  return { text: expanded, unresolved: [...unresolved] };
+}
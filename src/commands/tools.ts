@@ -31,17 +31,17 @@ export const createCaseTool: Tool = {
       },
       project: {
         type: 'string',
-        description: 'Project name where the case should be created',
+        description: 'Project name or ID where the case should be created',
         optional: true,
       },
       area: {
         type: 'string',
-        description: 'Area name within the project',
+        description: 'Area name or ID within the project',
         optional: true,
       },
       milestone: {
         type: 'string',
-        description: 'Milestone (FixFor) name',
+        description: 'Milestone (FixFor) name or ID; the project\'s own milestones are matched before global ones',
         optional: true,
       },
       priority: {
@@ -51,87 +51,1958 @@ export const createCaseTool: Tool = {
       },
       assignee: {
         type: 'string',
-        description: 'Person to assign the case to',
+        description: 'Name, email or ID of the person to assign the case to',
+        optional: true,
+      },
+      parentCaseId: {
+        type: 'number',
+        description: 'ID of the parent case, to create this case as a subcase',
+        optional: true,
+      },
+      category: {
+        type: ['string', 'number'],
+        description: 'Category name (e.g., "Bug", "Feature") or ID',
+        optional: true,
+      },
+      dueDate: {
+        type: 'string',
+        description: 'Due date (ISO 8601)',
+        optional: true,
+      },
+      estimateHours: {
+        type: 'number',
+        description: 'Current estimate in hours (hrsCurrEst)',
+        optional: true,
+      },
+      storyPoints: {
+        type: 'number',
+        description: 'Story points (dblStoryPts)',
+        optional: true,
+      },
+      customFields: {
+        type: 'object',
+        description: 'Custom or plugin field values keyed by field name; values are checked against the field type. Raw plugin column names (plugin_...) still work, unchecked, on instances that can\'t list their fields',
+        optional: true,
+      },
+      attachmentPath: {
+        type: 'string',
+        description: 'Path to a screenshot or file to attach',
+        optional: true,
+      },
+    },
+    required: ['title'],
+  },
+};
+
+// Tool: Update an existing FogBugz case
+export const updateCaseTool: Tool = {
+  name: 'fogbugz_update_case',
+  description: 'Updates an existing FogBugz case with new field values.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      caseId: {
+        type: 'number',
+        description: 'The ID of the case to update',
+      },
+      title: {
+        type: 'string',
+        description: 'New title for the case',
+        optional: true,
+      },
+      description: {
+        type: 'string',
+        description: 'Additional comment to add to the case',
+        optional: true,
+      },
+      project: {
+        type: 'string',
+        description: 'Project name or ID to move the case to',
+        optional: true,
+      },
+      area: {
+        type: 'string',
+        description: 'Area name or ID within the project (the case\'s current project if none is given)',
+        optional: true,
+      },
+      milestone: {
+        type: 'string',
+        description: 'Milestone (FixFor) name or ID; the project\'s own milestones are matched before global ones',
+        optional: true,
+      },
+      priority: {
+        type: ['number', 'string'],
+        description: 'Priority level (number 1-7) or name',
+        optional: true,
+      },
+      category: {
+        type: ['string', 'number'],
+        description: 'Category name (e.g., "Bug", "Feature") or ID',
+        optional: true,
+      },
+      dueDate: {
+        type: 'string',
+        description: 'Due date (ISO 8601)',
+        optional: true,
+      },
+      estimateHours: {
+        type: 'number',
+        description: 'Current estimate in hours (hrsCurrEst)',
+        optional: true,
+      },
+      storyPoints: {
+        type: 'number',
+        description: 'Story points (dblStoryPts)',
+        optional: true,
+      },
+      customFields: {
+        type: 'object',
+        description: 'Custom or plugin field values keyed by field name; values are checked against the field type. Raw plugin column names (plugin_...) still work, unchecked, on instances that can\'t list their fields',
+        optional: true,
+      },
+      elapsedHours: {
+        type: 'number',
+        description: 'Total elapsed hours (hrsElapsed); hours beyond the timesheet are recorded as extra elapsed time',
         optional: true,
       },
       attachmentPath: {
         type: 'string',
-        description: 'Path to a screenshot or file to attach',
+        description: 'Path to a screenshot or file to attach',
+        optional: true,
+      },
+      snippet: {
+        type: ['string', 'number'],
+        description: 'Name or ID of a snippet to expand into the comment, after the description if both are given',
+        optional: true,
+      },
+    },
+    required: ['caseId'],
+  },
+};
+
+// Tool: Assign a FogBugz case to a user
+export const assignCaseTool: Tool = {
+  name: 'fogbugz_assign_case',
+  description: 'Assigns a FogBugz case to a specific user.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      caseId: {
+        type: 'number',
+        description: 'The ID of the case to assign',
+      },
+      assignee: {
+        type: 'string',
+        description: 'Name or email of the person to assign the case to',
+      },
+    },
+    required: ['caseId', 'assignee'],
+  },
+};
+
+// Tool: Resolve a FogBugz case
+export const resolveCaseTool: Tool = {
+  name: 'fogbugz_resolve_case',
+  description: 'Resolves a FogBugz case with a resolution status such as "Fixed", "Duplicate" or "Won\'t Fix".',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      caseId: {
+        type: 'number',
+        description: 'The ID of the case to resolve',
+      },
+      resolution: {
+        type: 'string',
+        description: 'Resolution status name for the case\'s category (e.g., "Fixed", "Duplicate", "Won\'t Fix"). Defaults to the category\'s default resolution',
+        optional: true,
+      },
+      comment: {
+        type: 'string',
+        description: 'Comment to add to the case when resolving it',
+        optional: true,
+      },
+      duplicateOf: {
+        type: 'number',
+        description: 'ID of the original case when resolving as a duplicate',
+        optional: true,
+      },
+    },
+    required: ['caseId'],
+  },
+};
+
+// Tool: Close a FogBugz case
+export const closeCaseTool: Tool = {
+  name: 'fogbugz_close_case',
+  description: 'Closes a resolved FogBugz case.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      caseId: {
+        type: 'number',
+        description: 'The ID of the case to close',
+      },
+      comment: {
+        type: 'string',
+        description: 'Comment to add to the case when closing it',
+        optional: true,
+      },
+    },
+    required: ['caseId'],
+  },
+};
+
+// Tool: Reopen a FogBugz case
+export const reopenCaseTool: Tool = {
+  name: 'fogbugz_reopen_case',
+  description: 'Reopens a closed FogBugz case, or reactivates a resolved one.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      caseId: {
+        type: 'number',
+        description: 'The ID of the case to reopen',
+      },
+      comment: {
+        type: 'string',
+        description: 'Comment explaining why the case is being reopened',
+        optional: true,
+      },
+    },
+    required: ['caseId'],
+  },
+};
+
+// Tool: Sends an email from a FogBugz case
+export const emailCaseTool: Tool = {
+  name: 'fogbugz_email_case',
+  description: 'Sends an email from a FogBugz case.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      caseId: {
+        type: 'number',
+        description: 'The ID of the case to send from',
+      },
+      to: {
+        type: 'string',
+        description: 'Comma-separated recipient addresses',
+      },
+      from: {
+        type: 'string',
+        description: 'Sender address (must be a mailbox address; defaults to the case\'s mailbox)',
+        optional: true,
+      },
+      cc: {
+        type: 'string',
+        description: 'Comma-separated CC addresses',
+        optional: true,
+      },
+      bcc: {
+        type: 'string',
+        description: 'Comma-separated BCC addresses',
+        optional: true,
+      },
+      subject: {
+        type: 'string',
+        description: 'Email subject (defaults to the case title)',
+        optional: true,
+      },
+      body: {
+        type: 'string',
+        description: 'Email body text (required unless a snippet is given)',
+        optional: true,
+      },
+      snippet: {
+        type: ['string', 'number'],
+        description: 'Name or ID of a snippet to expand into the message, after the body if both are given',
+        optional: true,
+      },
+      allowUnresolvedPlaceholders: {
+        type: 'boolean',
+        description: 'Send even if some snippet placeholders could not be filled in (default: false)',
+        optional: true,
+      },
+      attachmentPaths: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Paths to files to attach to the email',
+        optional: true,
+      },
+    },
+    required: ['caseId', 'to'],
+  },
+};
+
+// Tool: Replies to the correspondent on a FogBugz case
+export const replyToCaseTool: Tool = {
+  name: 'fogbugz_reply_case',
+  description: 'Replies to the correspondent on a FogBugz case.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      caseId: {
+        type: 'number',
+        description: 'The ID of the case to send from',
+      },
+      to: {
+        type: 'string',
+        description: 'Comma-separated recipient addresses (usually the customer)',
+      },
+      from: {
+        type: 'string',
+        description: 'Sender address (must be a mailbox address; defaults to the case\'s mailbox)',
+        optional: true,
+      },
+      cc: {
+        type: 'string',
+        description: 'Comma-separated CC addresses',
+        optional: true,
+      },
+      bcc: {
+        type: 'string',
+        description: 'Comma-separated BCC addresses',
+        optional: true,
+      },
+      subject: {
+        type: 'string',
+        description: 'Email subject (defaults to the case title)',
+        optional: true,
+      },
+      body: {
+        type: 'string',
+        description: 'Reply body text (required unless a snippet is given)',
+        optional: true,
+      },
+      snippet: {
+        type: ['string', 'number'],
+        description: 'Name or ID of a snippet to expand into the message, after the body if both are given',
+        optional: true,
+      },
+      allowUnresolvedPlaceholders: {
+        type: 'boolean',
+        description: 'Send even if some snippet placeholders could not be filled in (default: false)',
+        optional: true,
+      },
+      attachmentPaths: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Paths to files to attach to the email',
+        optional: true,
+      },
+    },
+    required: ['caseId', 'to'],
+  },
+};
+
+// Tool: Forwards a FogBugz case by email
+export const forwardCaseTool: Tool = {
+  name: 'fogbugz_forward_case',
+  description: 'Forwards a FogBugz case by email.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      caseId: {
+        type: 'number',
+        description: 'The ID of the case to send from',
+      },
+      to: {
+        type: 'string',
+        description: 'Comma-separated addresses to forward to',
+      },
+      from: {
+        type: 'string',
+        description: 'Sender address (must be a mailbox address; defaults to the case\'s mailbox)',
+        optional: true,
+      },
+      cc: {
+        type: 'string',
+        description: 'Comma-separated CC addresses',
+        optional: true,
+      },
+      bcc: {
+        type: 'string',
+        description: 'Comma-separated BCC addresses',
+        optional: true,
+      },
+      subject: {
+        type: 'string',
+        description: 'Email subject (defaults to the case title)',
+        optional: true,
+      },
+      body: {
+        type: 'string',
+        description: 'Message to include above the forwarded case (required unless a snippet is given)',
+        optional: true,
+      },
+      snippet: {
+        type: ['string', 'number'],
+        description: 'Name or ID of a snippet to expand into the message, after the body if both are given',
+        optional: true,
+      },
+      allowUnresolvedPlaceholders: {
+        type: 'boolean',
+        description: 'Send even if some snippet placeholders could not be filled in (default: false)',
+        optional: true,
+      },
+      attachmentEventId: {
+        type: 'number',
+        description: 'ID of a case event whose attachments should be forwarded',
+        optional: true,
+      },
+      attachmentPaths: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Paths to files to attach to the email',
+        optional: true,
+      },
+    },
+    required: ['caseId', 'to'],
+  },
+};
+
+// Tool: Move a case under a parent case or detach it
+export const setParentCaseTool: Tool = {
+  name: 'fogbugz_set_parent_case',
+  description: 'Makes a FogBugz case a subcase of another case, or detaches it from its parent when no parent is given.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      caseId: {
+        type: 'number',
+        description: 'The ID of the case to move',
+      },
+      parentCaseId: {
+        type: 'number',
+        description: 'ID of the new parent case (omit or 0 to detach from the current parent)',
+        optional: true,
+      },
+    },
+    required: ['caseId'],
+  },
+};
+
+// Tool: View the parent/subcase tree around a case
+export const viewCaseTreeTool: Tool = {
+  name: 'fogbugz_view_case_tree',
+  description: 'Shows the full parent/subcase hierarchy containing a FogBugz case as an indented outline with status rollups.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      caseId: {
+        type: 'number',
+        description: 'The ID of any case in the tree',
+      },
+    },
+    required: ['caseId'],
+  },
+};
+
+// Tool: Adds tags to a FogBugz case, keeping its existing tags
+export const addCaseTagsTool: Tool = {
+  name: 'fogbugz_add_case_tags',
+  description: 'Adds tags to a FogBugz case, keeping its existing tags.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      caseId: {
+        type: 'number',
+        description: 'The ID of the case to tag',
+      },
+      tags: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Tags to add',
+      },
+    },
+    required: ['caseId', 'tags'],
+  },
+};
+
+// Tool: Removes tags from a FogBugz case, keeping its other tags
+export const removeCaseTagsTool: Tool = {
+  name: 'fogbugz_remove_case_tags',
+  description: 'Removes tags from a FogBugz case, keeping its other tags.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      caseId: {
+        type: 'number',
+        description: 'The ID of the case to tag',
+      },
+      tags: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Tags to remove',
+      },
+    },
+    required: ['caseId', 'tags'],
+  },
+};
+
+// Tool: Replaces all tags on a FogBugz case
+export const replaceCaseTagsTool: Tool = {
+  name: 'fogbugz_replace_case_tags',
+  description: 'Replaces all tags on a FogBugz case.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      caseId: {
+        type: 'number',
+        description: 'The ID of the case to tag',
+      },
+      tags: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'The complete new set of tags (an empty list removes all tags)',
+      },
+    },
+    required: ['caseId', 'tags'],
+  },
+};
+
+// Tool: List tags
+export const listTagsTool: Tool = {
+  name: 'fogbugz_list_tags',
+  description: 'Lists all FogBugz tags with the number of times each one is used.',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+    required: [],
+  },
+};
+
+// Tool: Start the work timer on a case
+export const startWorkTool: Tool = {
+  name: 'fogbugz_start_work',
+  description: 'Starts the FogBugz work timer on a case, stopping any timer already running.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      caseId: {
+        type: 'number',
+        description: 'The ID of the case to work on',
+      },
+    },
+    required: ['caseId'],
+  },
+};
+
+// Tool: Stop the work timer
+export const stopWorkTool: Tool = {
+  name: 'fogbugz_stop_work',
+  description: 'Stops the FogBugz work timer.',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+    required: [],
+  },
+};
+
+// Tool: Log a past time interval on a case
+export const logTimeTool: Tool = {
+  name: 'fogbugz_log_time',
+  description: 'Logs time already spent on a FogBugz case as an interval. Give either an end time or a number of hours.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      caseId: {
+        type: 'number',
+        description: 'The ID of the case to charge time to',
+      },
+      start: {
+        type: 'string',
+        description: 'Start of the interval as an ISO 8601 date-time (include a UTC offset, e.g. "2024-03-05T13:00:00-05:00")',
+      },
+      end: {
+        type: 'string',
+        description: 'End of the interval as an ISO 8601 date-time',
+        optional: true,
+      },
+      hours: {
+        type: 'number',
+        description: 'Length of the interval in hours, used when no end is given',
+        optional: true,
+      },
+    },
+    required: ['caseId', 'start'],
+  },
+};
+
+// Tool: Summarize logged time for a date range
+export const timesheetTool: Tool = {
+  name: 'fogbugz_timesheet',
+  description: 'Summarizes time logged in a date range, with hours per case, per project and per day (UTC).',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      start: {
+        type: 'string',
+        description: 'Start of the range as an ISO 8601 date or date-time',
+      },
+      end: {
+        type: 'string',
+        description: 'End of the range as an ISO 8601 date or date-time (defaults to now)',
+        optional: true,
+      },
+      person: {
+        type: ['string', 'number'],
+        description: 'Name, email or ID of the person (defaults to current user; other people require admin rights)',
+        optional: true,
+      },
+    },
+    required: ['start'],
+  },
+};
+
+// Tool: List milestones
+export const listMilestonesTool: Tool = {
+  name: 'fogbugz_list_milestones',
+  description: 'Lists FogBugz milestones (FixFors), optionally for a single project.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      project: {
+        type: ['string', 'number'],
+        description: 'Project name or ID (includes global milestones); omit to list all milestones',
+        optional: true,
+      },
+      includeInactive: {
+        type: 'boolean',
+        description: 'Whether to include inactive (unassignable) milestones',
+        optional: true,
+      },
+    },
+    required: [],
+  },
+};
+
+// Tool: View a milestone
+export const viewMilestoneTool: Tool = {
+  name: 'fogbugz_view_milestone',
+  description: 'Views a FogBugz milestone, including its dates and the milestones it depends on.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      milestoneId: {
+        type: 'number',
+        description: 'The ID of the milestone to view',
+      },
+    },
+    required: ['milestoneId'],
+  },
+};
+
+// Tool: Create a milestone
+export const createMilestoneTool: Tool = {
+  name: 'fogbugz_create_milestone',
+  description: 'Creates a new FogBugz milestone (FixFor) in a project, or a global milestone.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Name of the milestone',
+      },
+      project: {
+        type: ['string', 'number'],
+        description: 'Project name or ID (omit to create a global milestone)',
+        optional: true,
+      },
+      releaseDate: {
+        type: 'string',
+        description: 'Target release date (ISO 8601)',
+        optional: true,
+      },
+      startDate: {
+        type: 'string',
+        description: 'Start date (ISO 8601)',
+        optional: true,
+      },
+      startNote: {
+        type: 'string',
+        description: 'Notes about start conditions',
+        optional: true,
+      },
+      assignable: {
+        type: 'boolean',
+        description: 'Whether cases can be assigned to the milestone (default: true)',
+        optional: true,
+      },
+    },
+    required: ['name'],
+  },
+};
+
+// Tool: Edit a milestone
+export const editMilestoneTool: Tool = {
+  name: 'fogbugz_edit_milestone',
+  description: 'Edits a FogBugz milestone. Fields that are not given keep their current values.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      milestoneId: {
+        type: 'number',
+        description: 'The ID of the milestone to edit',
+      },
+      name: {
+        type: 'string',
+        description: 'New name for the milestone',
+        optional: true,
+      },
+      releaseDate: {
+        type: 'string',
+        description: 'New target release date (ISO 8601, or empty string to clear)',
+        optional: true,
+      },
+      startDate: {
+        type: 'string',
+        description: 'New start date (ISO 8601, or empty string to clear)',
+        optional: true,
+      },
+      startNote: {
+        type: 'string',
+        description: 'New start notes (empty string to clear)',
+        optional: true,
+      },
+      assignable: {
+        type: 'boolean',
+        description: 'Whether cases can be assigned to the milestone',
+        optional: true,
+      },
+    },
+    required: ['milestoneId'],
+  },
+};
+
+// Tool: Add a milestone dependency
+export const addMilestoneDependencyTool: Tool = {
+  name: 'fogbugz_add_milestone_dependency',
+  description: 'Makes one FogBugz milestone depend on another. Refuses dependencies that would create a cycle.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      milestoneId: {
+        type: 'number',
+        description: 'The ID of the milestone that depends on the other',
+      },
+      dependsOnId: {
+        type: 'number',
+        description: 'The ID of the milestone that must be completed first',
+      },
+    },
+    required: ['milestoneId', 'dependsOnId'],
+  },
+};
+
+// Tool: Remove a milestone dependency
+export const removeMilestoneDependencyTool: Tool = {
+  name: 'fogbugz_remove_milestone_dependency',
+  description: 'Removes a dependency between two FogBugz milestones.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      milestoneId: {
+        type: 'number',
+        description: 'The ID of the milestone that depends on the other',
+      },
+      dependsOnId: {
+        type: 'number',
+        description: 'The ID of the milestone it should no longer depend on',
+      },
+    },
+    required: ['milestoneId', 'dependsOnId'],
+  },
+};
+
+// Tool: Show the milestone dependency graph for a project
+export const milestoneGraphTool: Tool = {
+  name: 'fogbugz_milestone_graph',
+  description: 'Lists a project\'s milestones in dependency order, so each milestone comes after the ones it depends on.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      project: {
+        type: ['string', 'number'],
+        description: 'Project name or ID',
+      },
+      includeInactive: {
+        type: 'boolean',
+        description: 'Whether to include inactive (unassignable) milestones',
+        optional: true,
+      },
+    },
+    required: ['project'],
+  },
+};
+
+// Tool: List wikis
+export const listWikisTool: Tool = {
+  name: 'fogbugz_list_wikis',
+  description: 'Lists the FogBugz wikis visible to the current user.',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+    required: [],
+  },
+};
+
+// Tool: List the articles in a wiki
+export const listArticlesTool: Tool = {
+  name: 'fogbugz_list_articles',
+  description: 'Lists the articles in a FogBugz wiki.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      wikiId: {
+        type: 'number',
+        description: 'The ID of the wiki',
+      },
+    },
+    required: ['wikiId'],
+  },
+};
+
+// Tool: View a wiki article
+export const viewArticleTool: Tool = {
+  name: 'fogbugz_view_article',
+  description: 'Views a FogBugz wiki article. The body is returned as Markdown by default.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      articleId: {
+        type: 'number',
+        description: 'The ID of the article (ixWikiPage)',
+      },
+      revision: {
+        type: 'number',
+        description: 'Revision number to view (defaults to the latest)',
+        optional: true,
+      },
+      format: {
+        type: 'string',
+        enum: ['markdown', 'html'],
+        description: 'Format of the returned body (default: markdown)',
+        optional: true,
+      },
+    },
+    required: ['articleId'],
+  },
+};
+
+// Tool: Create a wiki article
+export const createArticleTool: Tool = {
+  name: 'fogbugz_create_article',
+  description: 'Creates a new FogBugz wiki article from a Markdown body.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      wikiId: {
+        type: 'number',
+        description: 'The ID of the wiki to add the article to',
+      },
+      headline: {
+        type: 'string',
+        description: 'Title of the article',
+      },
+      body: {
+        type: 'string',
+        description: 'Article content as Markdown',
+      },
+      tags: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Tags to apply to the article',
+        optional: true,
+      },
+    },
+    required: ['wikiId', 'headline', 'body'],
+  },
+};
+
+// Tool: Edit a wiki article
+export const editArticleTool: Tool = {
+  name: 'fogbugz_edit_article',
+  description: 'Edits a FogBugz wiki article. The body replaces the whole article and is given as Markdown.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      articleId: {
+        type: 'number',
+        description: 'The ID of the article to edit',
+      },
+      headline: {
+        type: 'string',
+        description: 'New title for the article',
+        optional: true,
+      },
+      body: {
+        type: 'string',
+        description: 'New article content as Markdown',
+        optional: true,
+      },
+      comment: {
+        type: 'string',
+        description: 'Revision comment describing the change',
+        optional: true,
+      },
+      tags: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Complete new set of tags for the article',
+        optional: true,
+      },
+    },
+    required: ['articleId'],
+  },
+};
+
+// Tool: List the revisions of a wiki article
+export const listArticleRevisionsTool: Tool = {
+  name: 'fogbugz_list_article_revisions',
+  description: 'Lists the revision history of a FogBugz wiki article.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      articleId: {
+        type: 'number',
+        description: 'The ID of the article',
+      },
+    },
+    required: ['articleId'],
+  },
+};
+
+// Tool: Diff two revisions of a wiki article
+export const diffArticleRevisionsTool: Tool = {
+  name: 'fogbugz_diff_article_revisions',
+  description: 'Shows a unified diff (as Markdown) between two revisions of a FogBugz wiki article, with who made each revision and when. Defaults to the latest revision compared with the one before it.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      articleId: {
+        type: 'number',
+        description: 'The ID of the article',
+      },
+      fromRevision: {
+        type: 'number',
+        description: 'Older revision number (defaults to the revision before toRevision)',
+        optional: true,
+      },
+      toRevision: {
+        type: 'number',
+        description: 'Newer revision number (defaults to the latest revision)',
+        optional: true,
+      },
+    },
+    required: ['articleId'],
+  },
+};
+
+// Tool: List wiki templates
+export const listTemplatesTool: Tool = {
+  name: 'fogbugz_list_templates',
+  description: 'Lists the FogBugz wiki templates.',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+    required: [],
+  },
+};
+
+// Tool: View a wiki template
+export const viewTemplateTool: Tool = {
+  name: 'fogbugz_view_template',
+  description: 'Views a FogBugz wiki template\'s HTML and CSS.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      templateId: {
+        type: 'number',
+        description: 'The ID of the template',
+      },
+      revision: {
+        type: 'number',
+        description: 'Revision number to view (defaults to the latest)',
+        optional: true,
+      },
+    },
+    required: ['templateId'],
+  },
+};
+
+// Tool: Create a wiki template
+export const createTemplateTool: Tool = {
+  name: 'fogbugz_create_template',
+  description: 'Creates a new FogBugz wiki template from HTML and CSS.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Name of the template',
+      },
+      html: {
+        type: 'string',
+        description: 'HTML body of the template',
+      },
+      css: {
+        type: 'string',
+        description: 'CSS styles for the template',
+        optional: true,
+      },
+      comment: {
+        type: 'string',
+        description: 'Revision comment',
+        optional: true,
+      },
+      isDefault: {
+        type: 'boolean',
+        description: 'Whether this becomes the default template for new wikis',
+        optional: true,
+      },
+    },
+    required: ['name', 'html'],
+  },
+};
+
+// Tool: Edit a wiki template
+export const editTemplateTool: Tool = {
+  name: 'fogbugz_edit_template',
+  description: 'Edits a FogBugz wiki template. Only the fields given are changed.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      templateId: {
+        type: 'number',
+        description: 'The ID of the template to edit',
+      },
+      name: {
+        type: 'string',
+        description: 'New name for the template',
+        optional: true,
+      },
+      html: {
+        type: 'string',
+        description: 'New HTML body of the template',
+        optional: true,
+      },
+      css: {
+        type: 'string',
+        description: 'New CSS styles for the template',
+        optional: true,
+      },
+      comment: {
+        type: 'string',
+        description: 'Revision comment describing the change',
+        optional: true,
+      },
+      isDefault: {
+        type: 'boolean',
+        description: 'Whether this becomes the default template for new wikis',
+        optional: true,
+      },
+    },
+    required: ['templateId'],
+  },
+};
+
+// Tool: List the revisions of a wiki template
+export const listTemplateRevisionsTool: Tool = {
+  name: 'fogbugz_list_template_revisions',
+  description: 'Lists the revision history of a FogBugz wiki template.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      templateId: {
+        type: 'number',
+        description: 'The ID of the template',
+      },
+    },
+    required: ['templateId'],
+  },
+};
+
+// Tool: Delete a wiki template
+export const deleteTemplateTool: Tool = {
+  name: 'fogbugz_delete_template',
+  description: 'Deletes a FogBugz wiki template. Requires confirm to be true.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      templateId: {
+        type: 'number',
+        description: 'The ID of the template to delete',
+      },
+      confirm: {
+        type: 'boolean',
+        description: 'Must be true to confirm the deletion',
+      },
+    },
+    required: ['templateId', 'confirm'],
+  },
+};
+
+// Tool: List discussion groups
+export const listDiscussGroupsTool: Tool = {
+  name: 'fogbugz_list_discussion_groups',
+  description: 'Lists the FogBugz discussion groups (forums) visible to the current user.',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+    required: [],
+  },
+};
+
+// Tool: List the topics in a discussion group
+export const listDiscussTopicsTool: Tool = {
+  name: 'fogbugz_list_discussion_topics',
+  description: 'Lists the topics in a FogBugz discussion group, newest first, one page at a time.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      groupId: {
+        type: 'number',
+        description: 'The ID of the discussion group',
+      },
+      month: {
+        type: 'number',
+        description: 'Only list topics from this month (1-12, use with year)',
+        optional: true,
+      },
+      year: {
+        type: 'number',
+        description: 'Only list topics from this year',
+        optional: true,
+      },
+      offset: {
+        type: 'number',
+        description: 'Number of topics to skip (default: 0)',
+        optional: true,
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum number of topics to return (default: 20)',
+        optional: true,
+      },
+    },
+    required: ['groupId'],
+  },
+};
+
+// Tool: Read a discussion thread
+export const readDiscussTopicTool: Tool = {
+  name: 'fogbugz_read_discussion_topic',
+  description: 'Reads a full FogBugz discussion thread (a topic and all replies) as plain text.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      topicId: {
+        type: 'number',
+        description: 'The ID of the discussion topic',
+      },
+    },
+    required: ['topicId'],
+  },
+};
+
+// Tool: Create a case from a discussion topic
+export const createCaseFromDiscussTopicTool: Tool = {
+  name: 'fogbugz_create_case_from_discussion',
+  description: 'Creates a FogBugz case from a discussion topic. The thread is copied into the case with a link back to the topic.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      topicId: {
+        type: 'number',
+        description: 'The ID of the discussion topic',
+      },
+      title: {
+        type: 'string',
+        description: 'Case title (defaults to the topic headline)',
+        optional: true,
+      },
+      project: {
+        type: 'string',
+        description: 'Project name or ID where the case should be created',
+        optional: true,
+      },
+      area: {
+        type: 'string',
+        description: 'Area name or ID within the project',
+        optional: true,
+      },
+      milestone: {
+        type: 'string',
+        description: 'Milestone (FixFor) name or ID; the project\'s own milestones are matched before global ones',
+        optional: true,
+      },
+      priority: {
+        type: ['number', 'string'],
+        description: 'Priority level (number 1-7) or name',
+        optional: true,
+      },
+      assignee: {
+        type: 'string',
+        description: 'Name, email or ID of the person to assign the case to',
+        optional: true,
+      },
+    },
+    required: ['topicId'],
+  },
+};
+
+// Tool: Submit a BugzScout crash report
+export const scoutReportTool: Tool = {
+  name: 'fogbugz_scout_report',
+  description: 'Submits a crash report through BugzScout. The stack trace is normalized (addresses, paths and line numbers removed) so repeat crashes are counted on the same case. Returns the case and its occurrence count.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      stackTrace: {
+        type: 'string',
+        description: 'Error message followed by the stack trace, one frame per line',
+      },
+      title: {
+        type: 'string',
+        description: 'Case title for a new crash (defaults to the error message)',
+        optional: true,
+      },
+      details: {
+        type: 'string',
+        description: 'Additional context, such as the CI job or test name',
+        optional: true,
+      },
+      version: {
+        type: 'string',
+        description: 'Application version; when given, each version is tracked as a separate crash',
+        optional: true,
+      },
+      project: {
+        type: 'string',
+        description: 'Project name for new crash cases',
+        optional: true,
+      },
+      area: {
+        type: 'string',
+        description: 'Area name for new crash cases',
+        optional: true,
+      },
+      scoutMessage: {
+        type: 'string',
+        description: 'Message to show to whoever reports this crash (sScoutMessage)',
+        optional: true,
+      },
+      stopReporting: {
+        type: 'boolean',
+        description: 'Stop recording further occurrences of this crash (fScoutStopReporting)',
+        optional: true,
+      },
+    },
+    required: ['stackTrace'],
+  },
+};
+
+// Tool: List the checkins linked to a case
+export const listCheckinsTool: Tool = {
+  name: 'fogbugz_list_checkins',
+  description: 'Lists the source control commits linked to a FogBugz case.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      caseId: {
+        type: 'number',
+        description: 'The ID of the case',
+      },
+    },
+    required: ['caseId'],
+  },
+};
+
+// Tool: Link commits from a local git repository to cases
+export const importGitLogTool: Tool = {
+  name: 'fogbugz_import_git_log',
+  description: 'Reads the git log of a local repository, finds case references such as "Case 1234", "Case #1234" or "BugzID: 1234" in commit messages and links those commits to the cases. Commits already linked are skipped.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      repositoryPath: {
+        type: 'string',
+        description: 'Path to the local git repository',
+      },
+      repositoryId: {
+        type: 'number',
+        description: 'FogBugz source control repository ID (ixRepository) to record the checkins against',
+        optional: true,
+      },
+      branch: {
+        type: 'string',
+        description: 'Branch or revision range to read (defaults to the current branch)',
+        optional: true,
+      },
+      since: {
+        type: 'string',
+        description: 'Only read commits after this date (anything git log --since accepts, e.g. "2 weeks ago")',
+        optional: true,
+      },
+      maxCommits: {
+        type: 'number',
+        description: 'Maximum number of commits to read (default: 500)',
+        optional: true,
+      },
+      dryRun: {
+        type: 'boolean',
+        description: 'Report what would be linked without changing anything',
+        optional: true,
+      },
+    },
+    required: ['repositoryPath'],
+  },
+};
+
+// Tool: Generate release notes for a milestone
+export const releaseNotesTool: Tool = {
+  name: 'fogbugz_release_notes',
+  description: 'Generates release notes for a milestone from its resolved and closed cases, grouped by category or area. Uses each case\'s release note, falling back to its title. At most 1000 cases are read; larger milestones are reported as truncated.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      milestone: {
+        type: ['string', 'number'],
+        description: 'Milestone (FixFor) name or ID',
+      },
+      project: {
+        type: ['string', 'number'],
+        description: 'Project name or ID, to pick between milestones with the same name',
+        optional: true,
+      },
+      groupBy: {
+        type: 'string',
+        enum: ['category', 'area'],
+        description: 'How to group the notes (default: category)',
+        optional: true,
+      },
+      format: {
+        type: 'string',
+        enum: ['markdown', 'html', 'text'],
+        description: 'Output format (default: markdown)',
+        optional: true,
+      },
+      writeMissing: {
+        type: 'boolean',
+        description: 'Write the case title as the release note on cases that have none; the project and milestone must then be named exactly',
+        optional: true,
+      },
+    },
+    required: ['milestone'],
+  },
+};
+
+// Tool: View a person's working schedule
+export const viewWorkingScheduleTool: Tool = {
+  name: 'fogbugz_view_working_schedule',
+  description: 'Shows a person\'s working schedule (hours per day, workday times, lunch, work days) and their percent-time allocation per project',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      person: {
+        type: ['string', 'number'],
+        description: 'Person name, email or ID (default: current user)',
+        optional: true,
+      },
+    },
+    required: [],
+  },
+};
+
+// Tool: Set a person's percent-time allocation to a project
+export const setProjectTimeTool: Tool = {
+  name: 'fogbugz_set_project_time',
+  description: 'Sets the percentage of a person\'s time allocated to a project. Allocations across projects cannot exceed 100%; a percent of 0 removes the allocation. New allocations can only be added for the current user.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      project: {
+        type: ['string', 'number'],
+        description: 'Project name or ID',
+      },
+      percent: {
+        type: 'number',
+        description: 'Whole-number percentage between 0 and 100',
+      },
+      person: {
+        type: ['string', 'number'],
+        description: 'Person name, email or ID (default: current user)',
+        optional: true,
+      },
+    },
+    required: ['project', 'percent'],
+  },
+};
+
+// Tool: Turn an hours estimate into a completion date
+export const estimateCompletionDateTool: Tool = {
+  name: 'fogbugz_estimate_completion_date',
+  description: 'Converts an estimate in working hours into a calendar completion date, following a person\'s working schedule',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      hours: {
+        type: 'number',
+        description: 'Working hours of effort',
+      },
+      start: {
+        type: 'string',
+        description: 'Start date/time (ISO 8601, default: now)',
+        optional: true,
+      },
+      person: {
+        type: ['string', 'number'],
+        description: 'Person name, email or ID whose schedule to use (default: current user)',
+        optional: true,
+      },
+    },
+    required: ['hours'],
+  },
+};
+
+// Tool: List saved filters
+export const listFiltersTool: Tool = {
+  name: 'fogbugz_list_filters',
+  description: 'Lists the current user\'s built-in, saved and shared filters, marking the current one',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      type: {
+        type: 'string',
+        enum: ['builtin', 'saved', 'shared'],
+        description: 'Only list filters of this type',
+        optional: true,
+      },
+    },
+    required: [],
+  },
+};
+
+// Tool: Run a saved filter
+export const runFilterTool: Tool = {
+  name: 'fogbugz_run_filter',
+  description: 'Lists the cases in a saved or shared filter by name or ID. The user\'s current filter in the web UI is restored afterwards.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      filter: {
+        type: 'string',
+        description: 'Filter name (e.g., "Sprint Triage") or sFilter ID',
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum number of cases to return (default: 50)',
+        optional: true,
+      },
+      changeCurrentFilter: {
+        type: 'boolean',
+        description: 'Allow leaving the filter as the current filter in the web UI when the current one is built-in and can\'t be restored (default: false)',
+        optional: true,
+      },
+    },
+    required: ['filter'],
+  },
+};
+
+// Tool: Compare two saved filters
+export const compareFiltersTool: Tool = {
+  name: 'fogbugz_compare_filters',
+  description: 'Compares the cases returned by two filters, listing cases only in one of them and the IDs of cases in both',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      filterA: {
+        type: 'string',
+        description: 'First filter name or sFilter ID',
+      },
+      filterB: {
+        type: 'string',
+        description: 'Second filter name or sFilter ID',
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum number of cases to read from each filter (default: 1000)',
+        optional: true,
+      },
+      changeCurrentFilter: {
+        type: 'boolean',
+        description: 'Allow leaving the filter as the current filter in the web UI when the current one is built-in and can\'t be restored (default: false)',
+        optional: true,
+      },
+    },
+    required: ['filterA', 'filterB'],
+  },
+};
+
+// Tool: List people
+export const listPeopleTool: Tool = {
+  name: 'fogbugz_list_people',
+  description: 'Lists FogBugz users with their user type (normal, administrator, community, virtual) and whether they are active',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      includeInactive: {
+        type: 'boolean',
+        description: 'Also list inactive (deleted) users',
+        optional: true,
+      },
+      includeCommunity: {
+        type: 'boolean',
+        description: 'Also list community users',
+        optional: true,
+      },
+      includeVirtual: {
+        type: 'boolean',
+        description: 'Also list virtual users',
+        optional: true,
+      },
+    },
+    required: [],
+  },
+};
+
+// Tool: View a person
+export const viewPersonTool: Tool = {
+  name: 'fogbugz_view_person',
+  description: 'Shows a FogBugz user\'s details, including inactive users',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      person: {
+        type: ['string', 'number'],
+        description: 'Person ID, email or full name (default: current user)',
+        optional: true,
+      },
+    },
+    required: [],
+  },
+};
+
+// Tool: Create a person
+export const createPersonTool: Tool = {
+  name: 'fogbugz_create_person',
+  description: 'Creates a FogBugz user. Requires the server to be started with FOGBUGZ_ALLOW_ADMIN_CHANGES=true.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      email: {
+        type: 'string',
+        description: 'Email address',
+      },
+      fullName: {
+        type: 'string',
+        description: 'Full name',
+      },
+      userType: {
+        type: 'string',
+        enum: ['normal', 'administrator', 'community', 'virtual'],
+        description: 'User type (default: normal); requires admin changes to be enabled',
+        optional: true,
+      },
+      password: {
+        type: 'string',
+        description: 'Initial password',
+        optional: true,
+      },
+      phone: {
+        type: 'string',
+        description: 'Phone number',
+        optional: true,
+      },
+      locale: {
+        type: 'string',
+        description: 'Locale for dates and numbers (e.g., "en-us", "*" for browser default)',
+        optional: true,
+      },
+      language: {
+        type: 'string',
+        description: 'UI language (e.g., "en-us", "*" for browser default)',
+        optional: true,
+      },
+      timeZone: {
+        type: 'string',
+        description: 'Time zone key (e.g., "Eastern Standard Time", "*" for server default)',
+        optional: true,
+      },
+      homepage: {
+        type: 'string',
+        description: 'Homepage URL',
+        optional: true,
+      },
+      notify: {
+        type: 'boolean',
+        description: 'Whether the user receives email notifications',
         optional: true,
       },
     },
-    required: ['title'],
+    required: ['email', 'fullName'],
   },
 };
 
-// Tool: Update an existing FogBugz case
-export const updateCaseTool: Tool = {
-  name: 'fogbugz_update_case',
-  description: 'Updates an existing FogBugz case with new field values.',
+// Tool: Edit a person
+export const editPersonTool: Tool = {
+  name: 'fogbugz_edit_person',
+  description: 'Edits a FogBugz user; only the fields given are changed. Set active to false to deactivate a user without losing their history. Changing the user type or active state requires FOGBUGZ_ALLOW_ADMIN_CHANGES=true.',
   inputSchema: {
     type: 'object',
     properties: {
-      caseId: {
-        type: 'number',
-        description: 'The ID of the case to update',
+      person: {
+        type: ['string', 'number'],
+        description: 'Person ID, email or full name',
       },
-      title: {
+      email: {
         type: 'string',
-        description: 'New title for the case',
+        description: 'New email address',
         optional: true,
       },
-      description: {
+      fullName: {
         type: 'string',
-        description: 'Additional comment to add to the case',
+        description: 'New full name',
         optional: true,
       },
-      project: {
+      phone: {
         type: 'string',
-        description: 'Project to move the case to',
+        description: 'New phone number',
         optional: true,
       },
-      area: {
+      locale: {
         type: 'string',
-        description: 'Area within the project',
+        description: 'Locale for dates and numbers',
         optional: true,
       },
-      milestone: {
+      language: {
         type: 'string',
-        description: 'Milestone (FixFor) name',
+        description: 'UI language',
         optional: true,
       },
-      priority: {
-        type: ['number', 'string'],
-        description: 'Priority level (number 1-7) or name',
+      timeZone: {
+        type: 'string',
+        description: 'Time zone key',
         optional: true,
       },
-      attachmentPath: {
+      homepage: {
         type: 'string',
-        description: 'Path to a screenshot or file to attach',
+        description: 'Homepage URL',
+        optional: true,
+      },
+      notify: {
+        type: 'boolean',
+        description: 'Whether the user receives email notifications',
+        optional: true,
+      },
+      userType: {
+        type: 'string',
+        enum: ['normal', 'administrator', 'community', 'virtual'],
+        description: 'New user type; requires admin changes to be enabled',
+        optional: true,
+      },
+      active: {
+        type: 'boolean',
+        description: 'false to deactivate the user, true to reactivate them',
         optional: true,
       },
     },
-    required: ['caseId'],
+    required: ['person'],
   },
 };
 
-// Tool: Assign a FogBugz case to a user
-export const assignCaseTool: Tool = {
-  name: 'fogbugz_assign_case',
-  description: 'Assigns a FogBugz case to a specific user.',
+// Tool: List projects
+export const listProjectsTool: Tool = {
+  name: 'fogbugz_list_projects',
+  description: 'Lists FogBugz projects with their primary contacts',
   inputSchema: {
     type: 'object',
     properties: {
-      caseId: {
-        type: 'number',
-        description: 'The ID of the case to assign',
+      includeDeleted: {
+        type: 'boolean',
+        description: 'Also list deleted projects',
+        optional: true,
       },
-      assignee: {
+    },
+    required: [],
+  },
+};
+
+// Tool: View a project
+export const viewProjectTool: Tool = {
+  name: 'fogbugz_view_project',
+  description: 'Shows a project\'s settings, primary contact and areas',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      project: {
+        type: ['string', 'number'],
+        description: 'Project name or ID',
+      },
+    },
+    required: ['project'],
+  },
+};
+
+// Tool: Edit a project
+export const editProjectTool: Tool = {
+  name: 'fogbugz_edit_project',
+  description: 'Renames a project or changes its primary contact or submission settings; only the fields given are changed',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      project: {
+        type: ['string', 'number'],
+        description: 'Project name or ID',
+      },
+      name: {
         type: 'string',
-        description: 'Name or email of the person to assign the case to',
+        description: 'New project name',
+        optional: true,
+      },
+      primaryContact: {
+        type: ['string', 'number'],
+        description: 'Primary contact\'s ID, full name or email',
+        optional: true,
+      },
+      isInbox: {
+        type: 'boolean',
+        description: 'Whether this is an inbox project',
+        optional: true,
+      },
+      allowPublicSubmit: {
+        type: 'boolean',
+        description: 'Whether to allow public submissions to this project',
+        optional: true,
       },
     },
-    required: ['caseId', 'assignee'],
+    required: ['project'],
+  },
+};
+
+// Tool: List areas
+export const listAreasTool: Tool = {
+  name: 'fogbugz_list_areas',
+  description: 'Lists areas with their owners, optionally for one project',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      project: {
+        type: ['string', 'number'],
+        description: 'Project name or ID',
+        optional: true,
+      },
+    },
+    required: [],
+  },
+};
+
+// Tool: View an area
+export const viewAreaTool: Tool = {
+  name: 'fogbugz_view_area',
+  description: 'Shows an area and its owner',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      area: {
+        type: ['string', 'number'],
+        description: 'Area name or ID',
+      },
+      project: {
+        type: ['string', 'number'],
+        description: 'Project name or ID, needed when several projects have an area with this name',
+        optional: true,
+      },
+    },
+    required: ['area'],
+  },
+};
+
+// Tool: Create an area
+export const createAreaTool: Tool = {
+  name: 'fogbugz_create_area',
+  description: 'Creates an area in a project',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      project: {
+        type: ['string', 'number'],
+        description: 'Project name or ID',
+      },
+      name: {
+        type: 'string',
+        description: 'Area name',
+      },
+      owner: {
+        type: ['string', 'number'],
+        description: 'Area owner\'s ID, full name or email (default: the project\'s primary contact)',
+        optional: true,
+      },
+    },
+    required: ['project', 'name'],
+  },
+};
+
+// Tool: Create a project with its areas
+export const createProjectWithAreasTool: Tool = {
+  name: 'fogbugz_create_project_with_areas',
+  description: 'Creates a project and its standard areas in one call. Areas that FogBugz already created with the project are skipped.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Name of the project to create',
+      },
+      primaryContact: {
+        type: ['string', 'number'],
+        description: 'Primary contact\'s ID, full name or email',
+        optional: true,
+      },
+      isInbox: {
+        type: 'boolean',
+        description: 'Whether this is an inbox project (default: false)',
+        optional: true,
+      },
+      allowPublicSubmit: {
+        type: 'boolean',
+        description: 'Whether to allow public submissions to this project',
+        optional: true,
+      },
+      areas: {
+        type: 'array',
+        items: {
+          type: ['string', 'object'],
+          properties: {
+            name: { type: 'string' },
+            owner: { type: ['string', 'number'] },
+          },
+        },
+        description: 'Areas to create: names, or objects with a name and an owner (ID, full name or email)',
+      },
+    },
+    required: ['name', 'areas'],
+  },
+};
+
+// Tool: List snippets
+export const listSnippetsTool: Tool = {
+  name: 'fogbugz_list_snippets',
+  description: 'Lists the snippets (canned replies) available to the current user, with their text. Placeholders such as {case}, {subject} and {sender} are filled in when a snippet is used on a case.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      globalOnly: {
+        type: 'boolean',
+        description: 'Only list global snippets, not personal ones',
+        optional: true,
+      },
+    },
+    required: [],
+  },
+};
+
+// Tool: List mailboxes
+export const listMailboxesTool: Tool = {
+  name: 'fogbugz_list_mailboxes',
+  description: 'Lists the FogBugz mailboxes with their email addresses, reply-from addresses and signatures. FogBugz doesn\'t return routing or auto-reply settings through the API.',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+    required: [],
+  },
+};
+
+// Tool: View a mailbox
+export const viewMailboxTool: Tool = {
+  name: 'fogbugz_view_mailbox',
+  description: 'Shows a mailbox\'s address, reply-from address and signature, e.g. to name the right address for customers. FogBugz doesn\'t return routing or auto-reply settings through the API.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      mailbox: {
+        type: ['string', 'number'],
+        description: 'Mailbox ID or email address',
+      },
+    },
+    required: ['mailbox'],
+  },
+};
+
+// Tool: List case categories
+export const listCategoriesTool: Tool = {
+  name: 'fogbugz_list_categories',
+  description: 'Lists case categories (e.g., Bug, Feature, Inquiry) with their IDs and default statuses',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      includeDeleted: {
+        type: 'boolean',
+        description: 'Also list deleted categories',
+        optional: true,
+      },
+    },
+    required: [],
+  },
+};
+
+// Tool: List statuses per category
+export const listStatusesTool: Tool = {
+  name: 'fogbugz_list_statuses',
+  description: 'Lists case statuses grouped by category, with their IDs and whether they are resolved, duplicate or work-done statuses',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      category: {
+        type: ['string', 'number'],
+        description: 'Only list statuses of this category (name or ID)',
+        optional: true,
+      },
+      resolvedOnly: {
+        type: 'boolean',
+        description: 'Only list resolved statuses',
+        optional: true,
+      },
+      includeDeleted: {
+        type: 'boolean',
+        description: 'Also list deleted statuses',
+        optional: true,
+      },
+    },
+    required: [],
+  },
+};
+
+// Tool: Look up a status
+export const viewStatusTool: Tool = {
+  name: 'fogbugz_view_status',
+  description: 'Looks up a status by ID or by name (e.g., "Resolved (Fixed)" or just "Fixed"), returning its ID and flags',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      status: {
+        type: ['string', 'number'],
+        description: 'Status name or ID',
+      },
+      category: {
+        type: ['string', 'number'],
+        description: 'Category name or ID, to pick between statuses with the same name',
+        optional: true,
+      },
+    },
+    required: ['status'],
+  },
+};
+
+// Tool: List custom fields
+export const listCustomFieldsTool: Tool = {
+  name: 'fogbugz_list_custom_fields',
+  description: 'Lists the custom and plugin case fields defined on this FogBugz instance, with their types and choices',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+    required: [],
   },
 };
 
@@ -157,6 +2028,12 @@ export const listUserCasesTool: Tool = {
         description: 'Maximum number of cases to return',
         optional: true,
       },
+      fields: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Only return these columns: FogBugz column names (e.g., "hrsCurrEst", "dblStoryPts", "dtDue") or custom field names (raw plugin_... column names work even when the instance can\'t list its fields)',
+        optional: true,
+      },
     },
     required: [],
   },
@@ -178,6 +2055,12 @@ export const searchCasesTool: Tool = {
         description: 'Maximum number of cases to return',
         optional: true,
       },
+      fields: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Only return these columns: FogBugz column names (e.g., "hrsCurrEst", "dblStoryPts", "dtDue") or custom field names (raw plugin_... column names work even when the instance can\'t list its fields)',
+        optional: true,
+      },
     },
     required: ['query'],
   },
@@ -215,6 +2098,17 @@ export const viewCaseTool: Tool = {
         description: 'Whether to include the case event history (comments and changes)',
         optional: true,
       },
+      includeCheckins: {
+        type: 'boolean',
+        description: 'Whether to include the source control commits linked to the case',
+        optional: true,
+      },
+      fields: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Only return these columns: FogBugz column names (e.g., "hrsCurrEst", "dblStoryPts", "dtDue") or custom field names (raw plugin_... column names work even when the instance can\'t list its fields)',
+        optional: true,
+      },
     },
     required: ['caseId'],
   },
@@ -233,7 +2127,7 @@ export const createProjectTool: Tool = {
       },
       primaryContact: {
         type: ['string', 'number'],
-        description: 'User ID or name of the primary contact for the project',
+        description: 'ID, full name or email of the primary contact for the project',
         optional: true,
       },
       isInbox: {
@@ -256,9 +2150,110 @@ export const fogbugzTools = [
   createCaseTool,
   updateCaseTool,
   assignCaseTool,
+  resolveCaseTool,
+  closeCaseTool,
+  reopenCaseTool,
+  emailCaseTool,
+  replyToCaseTool,
+  forwardCaseTool,
+  setParentCaseTool,
+  viewCaseTreeTool,
+  addCaseTagsTool,
+  removeCaseTagsTool,
+  replaceCaseTagsTool,
+  listTagsTool,
+  startWorkTool,
+  stopWorkTool,
+  logTimeTool,
+  timesheetTool,
+  listMilestonesTool,
+  viewMilestoneTool,
+  createMilestoneTool,
+  editMilestoneTool,
+  addMilestoneDependencyTool,
+  removeMilestoneDependencyTool,
+  milestoneGraphTool,
+  listWikisTool,
+  listArticlesTool,
+  viewArticleTool,
+  createArticleTool,
+  editArticleTool,
+  listArticleRevisionsTool,
+  diffArticleRevisionsTool,
+  listTemplatesTool,
+  viewTemplateTool,
+  createTemplateTool,
+  editTemplateTool,
+  listTemplateRevisionsTool,
+  deleteTemplateTool,
+  listDiscussGroupsTool,
+  listDiscussTopicsTool,
+  readDiscussTopicTool,
+  createCaseFromDiscussTopicTool,
+  scoutReportTool,
+  listCheckinsTool,
+  importGitLogTool,
+  releaseNotesTool,
+  viewWorkingScheduleTool,
+  setProjectTimeTool,
+  estimateCompletionDateTool,
+  listFiltersTool,
+  runFilterTool,
+  compareFiltersTool,
+  listPeopleTool,
+  viewPersonTool,
+  createPersonTool,
+  editPersonTool,
+  listProjectsTool,
+  viewProjectTool,
+  editProjectTool,
+  listAreasTool,
+  viewAreaTool,
+  createAreaTool,
+  createProjectWithAreasTool,
+  listSnippetsTool,
+  listMailboxesTool,
+  viewMailboxTool,
+  listCategoriesTool,
+  listStatusesTool,
+  viewStatusTool,
+  listCustomFieldsTool,
   listUserCasesTool,
   searchCasesTool,
   getCaseLinkTool,
   viewCaseTool,
   createProjectTool,
 ];
+
+/**
+ * Read-only commands that tools depend on, sent once at startup to see whether the instance
+ * supports them. Tools are only turned off when FogBugz rejects one of their commands.
+ */
+const TOOL_COMMANDS: Record<string, string[]> = {
+  fogbugz_list_tags: ['listTags'],
+  fogbugz_view_working_schedule: ['listWorkingSchedule', 'listProjectPercentTime'],
+  fogbugz_set_project_time: ['listProjectPercentTime'],
+};
+
+/**
+ * The commands to probe before working out which tools the instance supports
+ */
+export function getProbeCommands(): string[] {
+  return [...new Set(Object.values(TOOL_COMMANDS).flat())];
+}
+
+/**
+ * Splits the tools into those the instance supports and the names of those it doesn't
+ */
+export function getSupportedTools(supportsCommand: (cmd: string) => boolean): { tools: Tool[]; disabled: string[] } {
+  const tools: Tool[] = [];
+  const disabled: string[] = [];
+  for (const tool of fogbugzTools) {
+    if ((TOOL_COMMANDS[tool.name] || []).every(supportsCommand)) {
+      tools.push(tool);
+    } else {
+      disabled.push(tool.name);
+    }
+  }
+  return { tools, disabled };
+}
@@ -1,7 +1,9 @@
 #!/usr/bin/env node
 import dotenv from 'dotenv';
 import { FogBugzApi } from './api';
-import { fogbugzTools } from './commands/tools';
+import { FogBugzApiInfo } from './api/types';
+import { API_VERSION, isApiVersionSupported } from './api/discovery';
+import { getSupportedTools, getProbeCommands } from './commands/tools';
 import * as handlers from './commands';
 
 // Load environment variables
@@ -15,7 +17,11 @@ const log = {
 };
 
 // Simple implementation of an MCP server that reads from stdin and writes to stdout
-async function startMcpServer(api: FogBugzApi) {
+async function startMcpServer(
+  api: FogBugzApi,
+  apiInfo: FogBugzApiInfo,
+  { tools, disabled: disabledTools }: ReturnType<typeof getSupportedTools>
+) {
   log.info('MCP Server started, waiting for requests...');
 
   // Create a readline interface to read from stdin
@@ -65,7 +71,15 @@ async function startMcpServer(api: FogBugzApi) {
             },
             serverInfo: {
               name: SERVER_NAME,
-              version: SERVER_VERSION
+              version: SERVER_VERSION,
+              fogbugz: {
+                endpoint: apiInfo.endpoint,
+                apiVersion: apiInfo.version ?? null,
+                minApiVersion: apiInfo.minVersion ?? null,
+                clientApiVersion: API_VERSION,
+                apiVersionSupported: isApiVersionSupported(apiInfo),
+                disabledTools
+              }
             }
           }
         };
@@ -99,7 +113,7 @@ async function startMcpServer(api: FogBugzApi) {
           jsonrpc: "2.0",
           id,
           result: {
-            tools: fogbugzTools
+            tools
           }
         };
         console.log(JSON.stringify(response));
@@ -108,6 +122,10 @@ async function startMcpServer(api: FogBugzApi) {
         const { name, arguments: args } = params;
         log.info(`Tool call: ${name}`);
 
+        if (disabledTools.includes(name)) {
+          throw new Error(`Tool ${name} is not supported by this FogBugz instance, which rejected the commands it needs`);
+        }
+
         let content;
         
         // Call the appropriate handler based on the tool name
@@ -121,6 +139,210 @@ async function startMcpServer(api: FogBugzApi) {
           case 'fogbugz_assign_case':
             content = await handlers.assignCase(api, args);
             break;
+          case 'fogbugz_resolve_case':
+            content = await handlers.resolveCase(api, args);
+            break;
+          case 'fogbugz_close_case':
+            content = await handlers.closeCase(api, args);
+            break;
+          case 'fogbugz_reopen_case':
+            content = await handlers.reopenCase(api, args);
+            break;
+          case 'fogbugz_email_case':
+            content = await handlers.emailCase(api, args);
+            break;
+          case 'fogbugz_reply_case':
+            content = await handlers.replyToCase(api, args);
+            break;
+          case 'fogbugz_forward_case':
+            content = await handlers.forwardCase(api, args);
+            break;
+          case 'fogbugz_set_parent_case':
+            content = await handlers.setParentCase(api, args);
+            break;
+          case 'fogbugz_view_case_tree':
+            content = await handlers.viewCaseTree(api, args);
+            break;
+          case 'fogbugz_add_case_tags':
+            content = await handlers.addCaseTags(api, args);
+            break;
+          case 'fogbugz_remove_case_tags':
+            content = await handlers.removeCaseTags(api, args);
+            break;
+          case 'fogbugz_replace_case_tags':
+            content = await handlers.replaceCaseTags(api, args);
+            break;
+          case 'fogbugz_list_tags':
+            content = await handlers.listTags(api, args);
+            break;
+          case 'fogbugz_start_work':
+            content = await handlers.startWork(api, args);
+            break;
+          case 'fogbugz_stop_work':
+            content = await handlers.stopWork(api, args);
+            break;
+          case 'fogbugz_log_time':
+            content = await handlers.logTime(api, args);
+            break;
+          case 'fogbugz_timesheet':
+            content = await handlers.getTimesheet(api, args);
+            break;
+          case 'fogbugz_list_milestones':
+            content = await handlers.listMilestones(api, args);
+            break;
+          case 'fogbugz_view_milestone':
+            content = await handlers.viewMilestone(api, args);
+            break;
+          case 'fogbugz_create_milestone':
+            content = await handlers.createMilestone(api, args);
+            break;
+          case 'fogbugz_edit_milestone':
+            content = await handlers.editMilestone(api, args);
+            break;
+          case 'fogbugz_add_milestone_dependency':
+            content = await handlers.addMilestoneDependency(api, args);
+            break;
+          case 'fogbugz_remove_milestone_dependency':
+            content = await handlers.removeMilestoneDependency(api, args);
+            break;
+          case 'fogbugz_milestone_graph':
+            content = await handlers.getMilestoneGraph(api, args);
+            break;
+          case 'fogbugz_list_wikis':
+            content = await handlers.listWikis(api, args);
+            break;
+          case 'fogbugz_list_articles':
+            content = await handlers.listArticles(api, args);
+            break;
+          case 'fogbugz_view_article':
+            content = await handlers.viewArticle(api, args);
+            break;
+          case 'fogbugz_create_article':
+            content = await handlers.createArticle(api, args);
+            break;
+          case 'fogbugz_edit_article':
+            content = await handlers.editArticle(api, args);
+            break;
+          case 'fogbugz_list_article_revisions':
+            content = await handlers.listArticleRevisions(api, args);
+            break;
+          case 'fogbugz_diff_article_revisions':
+            content = await handlers.diffArticleRevisions(api, args);
+            break;
+          case 'fogbugz_list_templates':
+            content = await handlers.listTemplates(api, args);
+            break;
+          case 'fogbugz_view_template':
+            content = await handlers.viewTemplate(api, args);
+            break;
+          case 'fogbugz_create_template':
+            content = await handlers.createTemplate(api, args);
+            break;
+          case 'fogbugz_edit_template':
+            content = await handlers.editTemplate(api, args);
+            break;
+          case 'fogbugz_list_template_revisions':
+            content = await handlers.listTemplateRevisions(api, args);
+            break;
+          case 'fogbugz_delete_template':
+            content = await handlers.deleteTemplate(api, args);
+            break;
+          case 'fogbugz_list_discussion_groups':
+            content = await handlers.listDiscussGroups(api, args);
+            break;
+          case 'fogbugz_list_discussion_topics':
+            content = await handlers.listDiscussTopics(api, args);
+            break;
+          case 'fogbugz_read_discussion_topic':
+            content = await handlers.readDiscussTopic(api, args);
+            break;
+          case 'fogbugz_create_case_from_discussion':
+            content = await handlers.createCaseFromDiscussTopic(api, args);
+            break;
+          case 'fogbugz_scout_report':
+            content = await handlers.submitScoutReport(api, args);
+            break;
+          case 'fogbugz_list_checkins':
+            content = await handlers.listCheckins(api, args);
+            break;
+          case 'fogbugz_import_git_log':
+            content = await handlers.importGitLog(api, args);
+            break;
+          case 'fogbugz_release_notes':
+            content = await handlers.generateReleaseNotes(api, args);
+            break;
+          case 'fogbugz_view_working_schedule':
+            content = await handlers.viewWorkingSchedule(api, args);
+            break;
+          case 'fogbugz_set_project_time':
+            content = await handlers.setProjectTime(api, args);
+            break;
+          case 'fogbugz_estimate_completion_date':
+            content = await handlers.estimateCompletionDate(api, args);
+            break;
+          case 'fogbugz_list_filters':
+            content = await handlers.listFilters(api, args);
+            break;
+          case 'fogbugz_run_filter':
+            content = await handlers.runSavedFilter(api, args);
+            break;
+          case 'fogbugz_compare_filters':
+            content = await handlers.compareFilters(api, args);
+            break;
+          case 'fogbugz_list_people':
+            content = await handlers.listPeople(api, args);
+            break;
+          case 'fogbugz_view_person':
+            content = await handlers.viewPerson(api, args);
+            break;
+          case 'fogbugz_create_person':
+            content = await handlers.createPerson(api, args);
+            break;
+          case 'fogbugz_edit_person':
+            content = await handlers.editPerson(api, args);
+            break;
+          case 'fogbugz_list_projects':
+            content = await handlers.listProjects(api, args);
+            break;
+          case 'fogbugz_view_project':
+            content = await handlers.viewProject(api, args);
+            break;
+          case 'fogbugz_edit_project':
+            content = await handlers.editProject(api, args);
+            break;
+          case 'fogbugz_list_areas':
+            content = await handlers.listAreas(api, args);
+            break;
+          case 'fogbugz_view_area':
+            content = await handlers.viewArea(api, args);
+            break;
+          case 'fogbugz_create_area':
+            content = await handlers.createArea(api, args);
+            break;
+          case 'fogbugz_create_project_with_areas':
+            content = await handlers.createProjectWithAreas(api, args);
+            break;
+          case 'fogbugz_list_snippets':
+            content = await handlers.listSnippets(api, args);
+            break;
+          case 'fogbugz_list_mailboxes':
+            content = await handlers.listMailboxes(api, args);
+            break;
+          case 'fogbugz_view_mailbox':
+            content = await handlers.viewMailbox(api, args);
+            break;
+          case 'fogbugz_list_categories':
+            content = await handlers.listCategories(api, args);
+            break;
+          case 'fogbugz_list_statuses':
+            content = await handlers.listStatuses(api, args);
+            break;
+          case 'fogbugz_view_status':
+            content = await handlers.viewStatus(api, args);
+            break;
+          case 'fogbugz_list_custom_fields':
+            content = await handlers.listCustomFields(api, args);
+            break;
           case 'fogbugz_list_my_cases':
             content = await handlers.listUserCases(api, args);
             break;
@@ -192,16 +414,39 @@ async function startMcpServer(api: FogBugzApi) {
     }
   });
 
-  // Handle process termination
-  process.on('SIGINT', () => {
-    log.info('Received SIGINT, shutting down...');
-    process.exit(0);
-  });
-  
-  process.on('SIGTERM', () => {
-    log.info('Received SIGTERM, shutting down...');
+  // Handle process termination. A cached password session is kept for the next start and for
+  // other servers sharing the cache; one that couldn't be cached is logged off instead.
+  let shuttingDown = false;
+  const shutdown = async (reason: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    log.info(`${reason}, shutting down...`);
+    try {
+      if (!api.hasCachedToken()) await api.logoff();
+    } catch (error: any) {
+      log.error('Error logging off from FogBugz:', error.message);
+    }
     process.exit(0);
-  });
+  };
+
+  process.on('SIGINT', () => shutdown('Received SIGINT'));
+  process.on('SIGTERM', () => shutdown('Received SIGTERM'));
+  rl.on('close', () => shutdown('Input closed'));
+}
+
+/**
+ * Reads a whole-number setting from the environment, exiting if it isn't one
+ */
+function readNonNegativeInteger(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === '') return undefined;
+
+  const number = Number(value);
+  if (!/^\s*\d+\s*$/.test(value) || !Number.isSafeInteger(number)) {
+    log.error(`Error: ${name} must be a whole number of 0 or more, got "${value}"`);
+    process.exit(1);
+  }
+  return number;
 }
 
 async function main() {
@@ -211,11 +456,17 @@ async function main() {
   // Get API configuration from environment or command line
   const fogbugzUrl = args[0] || process.env.FOGBUGZ_URL || '';
   const fogbugzApiKey = args[1] || process.env.FOGBUGZ_API_KEY || '';
+  const fogbugzEmail = process.env.FOGBUGZ_EMAIL || '';
+  const fogbugzPassword = process.env.FOGBUGZ_PASSWORD || '';
+  const allowAdminChanges = process.env.FOGBUGZ_ALLOW_ADMIN_CHANGES === 'true';
+  const timeoutMs = readNonNegativeInteger('FOGBUGZ_TIMEOUT_MS');
+  const maxRetries = readNonNegativeInteger('FOGBUGZ_MAX_RETRIES');
   
-  if (!fogbugzUrl || !fogbugzApiKey) {
-    log.error('Error: FogBugz URL and API key are required');
+  if (!fogbugzUrl || (!fogbugzApiKey && !(fogbugzEmail && fogbugzPassword))) {
+    log.error('Error: FogBugz URL and either an API key or an email and password are required');
     log.error('Usage: fogbugz-mcp <fogbugz-url> <api-key>');
     log.error('       or set FOGBUGZ_URL and FOGBUGZ_API_KEY environment variables');
+    log.error('       or set FOGBUGZ_URL, FOGBUGZ_EMAIL and FOGBUGZ_PASSWORD environment variables');
     process.exit(1);
   }
   
@@ -224,16 +475,44 @@ async function main() {
   // Initialize the FogBugz API client
   const api = new FogBugzApi({
     baseUrl: fogbugzUrl,
-    apiKey: fogbugzApiKey
+    apiKey: fogbugzApiKey || undefined,
+    email: fogbugzEmail,
+    password: fogbugzPassword,
+    tokenCacheFile: process.env.FOGBUGZ_TOKEN_CACHE || undefined,
+    allowAdminChanges,
+    timeoutMs,
+    maxRetries,
+    log: message => log.info(message),
   });
   
   try {
+    // Find the API endpoint and check the instance's API version before anything else
+    const apiInfo = await api.discover();
+    if (apiInfo.version !== undefined) {
+      log.info(`FogBugz API version ${apiInfo.version} (accepts ${apiInfo.minVersion} and later) at ${apiInfo.endpoint}`);
+    }
+    if (!isApiVersionSupported(apiInfo)) {
+      log.error(`FogBugz no longer accepts API version ${API_VERSION}, which this server uses; some tools may fail`);
+    }
+
+    // Log on with the email and password, if that's how we were configured
+    if (api.usesLogon()) {
+      await api.logon();
+    }
+
     // Test connection by getting current user
     const user = await api.getCurrentUser();
     log.info(`Connected to FogBugz as ${user.sPerson || user.sFullName} (${user.sEmail})`);
+
+    // Only offer the tools whose commands this FogBugz instance doesn't reject
+    await api.probeCommands(getProbeCommands());
+    const supportedTools = getSupportedTools(cmd => api.supportsCommand(cmd));
+    if (supportedTools.disabled.length > 0) {
+      log.info(`Disabled tools whose commands this FogBugz instance rejected: ${supportedTools.disabled.join(', ')}`);
+    }
     
     // Start the MCP server
-    await startMcpServer(api);
+    await startMcpServer(api, apiInfo, supportedTools);
   } catch (error) {
     log.error('Error initializing FogBugz API:', error);
     process.exit(1);
@@ -1,4 +1,8 @@
 import axios from 'axios';
+import FormData from 'form-data';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import { FogBugzApi } from '../src/api';
 
 // Mock axios
@@ -90,4 +94,288 @@ describe('FogBugzApi', () => {
     
     await expect(api.getCurrentUser()).rejects.toThrow('FogBugz API Error');
   });
-}); 
\ No newline at end of file
+
+  it('should resolve a case with a status and duplicate', async () => {
+    mockAxios.post.mockResolvedValueOnce({
+      data: {
+        data: {
+          case: { ixBug: 123 }
+        }
+      }
+    });
+
+    const result = await api.resolveCase({ ixBug: 123, ixStatus: 4, ixBugOriginal: 100 });
+
+    expect(mockAxios.post).toHaveBeenCalledWith(
+      'https://test.fogbugz.com/f/api/0/jsonapi',
+      expect.objectContaining({ cmd: 'resolve', ixBug: 123, ixStatus: 4, ixBugOriginal: 100 }),
+      expect.any(Object)
+    );
+    expect(result).toEqual({ ixBug: 123 });
+  });
+
+  it('should close, reopen and reactivate cases with an optional comment', async () => {
+    mockAxios.post.mockResolvedValue({
+      data: {
+        data: {
+          case: { ixBug: 123 }
+        }
+      }
+    });
+
+    await api.closeCase(123, 'Done');
+    await api.reopenCase(123);
+    await api.reactivateCase(123, 'Still broken');
+
+    const payloads = mockAxios.post.mock.calls.map(call => call[1]);
+    expect(payloads[0]).toEqual(expect.objectContaining({ cmd: 'close', ixBug: 123, sEvent: 'Done' }));
+    expect(payloads[1]).toEqual(expect.objectContaining({ cmd: 'reopen', ixBug: 123 }));
+    expect(payloads[1]).not.toHaveProperty('sEvent');
+    expect(payloads[2]).toEqual(expect.objectContaining({ cmd: 'reactivate', ixBug: 123, sEvent: 'Still broken' }));
+  });
+
+  it('should send case email with attachments as multipart form data', async () => {
+    const attachmentPath = path.join(os.tmpdir(), 'fogbugz-email-test.txt');
+    fs.writeFileSync(attachmentPath, 'log output');
+    mockAxios.post.mockResolvedValueOnce({
+      data: {
+        data: {
+          case: { ixBug: 123 }
+        }
+      }
+    });
+
+    try {
+      await api.emailCase(
+        { ixBug: 123, sTo: 'customer@example.com', sEvent: 'Hello' },
+        [{ path: attachmentPath, fieldName: 'File1' }]
+      );
+    } finally {
+      fs.unlinkSync(attachmentPath);
+    }
+
+    const [, body] = mockAxios.post.mock.calls[0];
+    expect(body).toBeInstanceOf(FormData);
+  });
+
+  it('should use the endpoint and version from api.xml', async () => {
+    mockAxios.get.mockResolvedValueOnce({
+      data: '<response><version>8</version><minversion>1</minversion><url>fogbugz/api.asp?</url></response>',
+    });
+    mockAxios.post.mockResolvedValueOnce({ data: { data: { projects: [] } } });
+
+    const onPremApi = new FogBugzApi({ baseUrl: 'https://intranet.example.com', apiKey: 'test-api-key' });
+    const info = await onPremApi.discover();
+    await onPremApi.listProjects();
+
+    expect(mockAxios.get).toHaveBeenCalledWith('https://intranet.example.com/api.xml', expect.any(Object));
+    expect(info).toEqual({ endpoint: 'https://intranet.example.com/fogbugz/f/api/0/jsonapi', version: 8, minVersion: 1 });
+    expect(mockAxios.post.mock.calls[0][0]).toBe('https://intranet.example.com/fogbugz/f/api/0/jsonapi');
+  });
+
+  it('should keep the standard endpoint when api.xml is unavailable', async () => {
+    const log = jest.fn();
+    mockAxios.get.mockRejectedValueOnce(new Error('Request failed with status code 404'));
+
+    const info = await new FogBugzApi({ ...mockConfig, log }).discover();
+
+    expect(info).toEqual({ endpoint: 'https://test.fogbugz.com/f/api/0/jsonapi' });
+    expect(log).toHaveBeenCalledWith(
+      'Could not read https://test.fogbugz.com/api.xml (Request failed with status code 404); using https://test.fogbugz.com/f/api/0/jsonapi'
+    );
+  });
+
+  it('should only treat a probed command as unsupported when FogBugz rejects it', async () => {
+    const log = jest.fn();
+    const probingApi = new FogBugzApi({ ...mockConfig, log });
+    mockAxios.post
+      .mockResolvedValueOnce({ data: { data: {}, errors: [{ message: 'Error 0: Unknown command: listTags', code: '0' }] } })
+      .mockResolvedValueOnce({ data: { data: {}, errors: [{ message: 'Not logged on', code: '3' }] } })
+      .mockResolvedValueOnce({ data: { data: { projectpercenttimes: [] }, errors: [] } });
+
+    await probingApi.probeCommands(['listTags', 'listWorkingSchedule', 'listProjectPercentTime']);
+
+    expect(probingApi.supportsCommand('listTags')).toBe(false);
+    expect(probingApi.supportsCommand('listWorkingSchedule')).toBe(true);
+    expect(probingApi.supportsCommand('listProjectPercentTime')).toBe(true);
+    expect(log).toHaveBeenCalledWith('FogBugz listTags failed (FogBugz API Error: Error 0: Unknown command: listTags); treating it as unsupported');
+  });
+
+  it('should report custom field lookup as unavailable when the instance rejects the command', async () => {
+    mockAxios.post.mockResolvedValueOnce({
+      data: { data: {}, errors: [{ message: 'Error 0: Unknown command: listCustomFields', code: '0' }] },
+    });
+
+    await expect(api.listCustomFields()).rejects.toThrow(
+      'Custom field lookup is unavailable on this FogBugz instance (FogBugz API Error: Error 0: Unknown command: listCustomFields)'
+    );
+  });
+
+  describe('retries', () => {
+    const log = jest.fn();
+    let retryingApi: FogBugzApi;
+
+    beforeEach(() => {
+      retryingApi = new FogBugzApi({ ...mockConfig, timeoutMs: 5000, maxRetries: 2, retryDelayMs: 1, log });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+      mockAxios.post.mockReset();
+    });
+
+    it('should retry a read after a 503, waiting as long as Retry-After asks', async () => {
+      jest.useFakeTimers();
+      mockAxios.post
+        .mockRejectedValueOnce({ response: { status: 503, headers: { 'retry-after': '2' }, data: {} } })
+        .mockResolvedValueOnce({ data: { data: { projects: [{ ixProject: 1, sProject: 'Website' }] } } });
+
+      const projects = retryingApi.listProjects();
+      await jest.advanceTimersByTimeAsync(1999);
+      expect(mockAxios.post).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1);
+
+      expect(await projects).toEqual([{ ixProject: 1, sProject: 'Website' }]);
+      expect(mockAxios.post).toHaveBeenCalledTimes(2);
+      expect(mockAxios.post.mock.calls[0][2]).toEqual(expect.objectContaining({ timeout: 5000 }));
+      expect(log).toHaveBeenCalledWith('FogBugz listProjects failed (HTTP 503); retry 1 of 2 in 2000ms');
+    });
+
+    it('should give up on network errors after the configured number of retries', async () => {
+      mockAxios.post.mockRejectedValue({ code: 'ECONNRESET', message: 'socket hang up' });
+
+      await expect(retryingApi.searchCases({ q: 'crash' })).rejects.toEqual(
+        expect.objectContaining({ code: 'ECONNRESET' })
+      );
+      expect(mockAxios.post).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not resend commands that change data unless they opt in', async () => {
+      mockAxios.post.mockRejectedValueOnce({ response: { status: 500, data: { errors: [{ message: 'Server busy' }] } } });
+
+      await expect(retryingApi.createCase({ sTitle: 'New case' })).rejects.toThrow('FogBugz API Error: 500 - Server busy');
+      expect(mockAxios.post).toHaveBeenCalledTimes(1);
+
+      mockAxios.post
+        .mockRejectedValueOnce({ response: { status: 429, data: {} } })
+        .mockResolvedValueOnce({ data: { data: {} } });
+
+      await retryingApi.setCurrentFilter('ez');
+      expect(mockAxios.post).toHaveBeenCalledTimes(3);
+    });
+
+    it('should report a timeout once retries run out', async () => {
+      mockAxios.post.mockRejectedValue({ code: 'ECONNABORTED', message: 'timeout of 5000ms exceeded' });
+
+      await expect(retryingApi.viewProject(1)).rejects.toThrow('FogBugz API Error: request timed out after 5000ms');
+      expect(log).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('logon', () => {
+    const tokenCacheFile = path.join(os.tmpdir(), `fogbugz-token-${process.pid}.json`);
+    const log = jest.fn();
+    let sessionApi: FogBugzApi;
+
+    beforeEach(() => {
+      fs.rmSync(tokenCacheFile, { force: true });
+      sessionApi = new FogBugzApi({
+        baseUrl: 'https://test.fogbugz.com',
+        email: 'dana@example.com',
+        password: 'secret',
+        tokenCacheFile,
+        log,
+      });
+    });
+
+    afterEach(() => {
+      fs.rmSync(tokenCacheFile, { force: true });
+      mockAxios.post.mockReset();
+    });
+
+    it('should log on with a password and cache the token for the owner only', async () => {
+      mockAxios.post.mockResolvedValueOnce({ data: { data: { token: 'session-1' }, errors: [] } });
+
+      await sessionApi.logon();
+
+      expect(mockAxios.post.mock.calls[0][1]).toEqual({ cmd: 'logon', email: 'dana@example.com', password: 'secret', token: undefined });
+      expect(JSON.parse(fs.readFileSync(tokenCacheFile, 'utf8')).token).toBe('session-1');
+      expect(fs.statSync(tokenCacheFile).mode & 0o777).toBe(0o600);
+      expect(sessionApi.hasCachedToken()).toBe(true);
+
+      // A second client reuses the cached token without logging on
+      const otherApi = new FogBugzApi({ baseUrl: 'https://test.fogbugz.com', email: 'dana@example.com', password: 'secret', tokenCacheFile });
+      await otherApi.logon();
+      expect(mockAxios.post).toHaveBeenCalledTimes(1);
+    });
+
+    it('should tighten an existing cache file by replacing it', async () => {
+      fs.writeFileSync(tokenCacheFile, '{}', { mode: 0o644 });
+      mockAxios.post.mockResolvedValueOnce({ data: { data: { token: 'session-1' }, errors: [] } });
+
+      await sessionApi.logon(false);
+
+      expect(JSON.parse(fs.readFileSync(tokenCacheFile, 'utf8')).token).toBe('session-1');
+      expect(fs.statSync(tokenCacheFile).mode & 0o777).toBe(0o600);
+      expect(fs.readdirSync(os.tmpdir()).filter(name => name.startsWith(`${path.basename(tokenCacheFile)}.`))).toEqual([]);
+    });
+
+    it('should report a session it could not cache', async () => {
+      const uncachedApi = new FogBugzApi({
+        baseUrl: 'https://test.fogbugz.com',
+        email: 'dana@example.com',
+        password: 'secret',
+        tokenCacheFile: path.join(tokenCacheFile, 'token.json'),
+        log,
+      });
+      fs.writeFileSync(tokenCacheFile, '');
+      mockAxios.post.mockResolvedValueOnce({ data: { data: { token: 'session-1' }, errors: [] } });
+
+      await uncachedApi.logon();
+
+      expect(uncachedApi.hasCachedToken()).toBe(false);
+      expect(log).toHaveBeenCalledWith(expect.stringContaining('Could not cache the FogBugz session token'));
+    });
+
+    it('should list the people an ambiguous email belongs to', async () => {
+      mockAxios.post.mockResolvedValueOnce({
+        data: {
+          data: {},
+          errors: [{ message: 'Error 2: Ambiguous Logon', code: '2' }],
+          people: ['John Hancock', 'Fred Astaire'],
+        },
+      });
+
+      await expect(sessionApi.logon()).rejects.toThrow(
+        'FogBugz logon is ambiguous: several people use "dana@example.com". ' +
+        'Log on with one of their full names instead: John Hancock, Fred Astaire'
+      );
+    });
+
+    it('should log on again when the token has expired, then log off', async () => {
+      fs.writeFileSync(tokenCacheFile, JSON.stringify({ baseUrl: 'https://test.fogbugz.com', email: 'dana@example.com', token: 'stale' }));
+      mockAxios.post
+        .mockResolvedValueOnce({ data: { data: {}, errors: [{ message: 'Not logged on', code: 3 }] } })
+        .mockResolvedValueOnce({ data: { data: { token: 'session-2' }, errors: [] } })
+        .mockResolvedValueOnce({ data: { data: { person: { ixPerson: 3 } }, errors: [] } })
+        .mockResolvedValueOnce({ data: { data: {}, errors: [] } });
+
+      await sessionApi.logon();
+      const user = await sessionApi.getCurrentUser();
+      await sessionApi.logoff();
+
+      const payloads = mockAxios.post.mock.calls.map(call => call[1]);
+      expect(user).toEqual({ ixPerson: 3 });
+      expect(payloads[0]).toEqual(expect.objectContaining({ cmd: 'viewPerson', token: 'stale' }));
+      expect(payloads[1]).toEqual(expect.objectContaining({ cmd: 'logon' }));
+      expect(payloads[2]).toEqual(expect.objectContaining({ cmd: 'viewPerson', token: 'session-2' }));
+      expect(payloads[3]).toEqual(expect.objectContaining({ cmd: 'logoff', token: 'session-2' }));
+      expect(fs.existsSync(tokenCacheFile)).toBe(false);
+    });
+
+    it('should never log off an API token', async () => {
+      await api.logoff();
+      expect(mockAxios.post).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,552 @@
+import { FogBugzApi } from '../src/api';
+import { FogBugzFilter } from '../src/api/types';
+import * as handlers from '../src/commands';
+import * as git from '../src/commands/git';
+
+// Mock the API client
+jest.mock('../src/api');
+
+const { CustomFieldLookupError } = jest.requireActual<typeof import('../src/api')>('../src/api');
+
+describe('command handlers', () => {
+  let api: jest.Mocked<FogBugzApi>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    api = new FogBugzApi({ baseUrl: 'https://test.fogbugz.com', apiKey: 'test-api-key' }) as jest.Mocked<FogBugzApi>;
+    api.getCaseLink.mockImplementation(caseId => `https://test.fogbugz.com/default.asp?${caseId}`);
+  });
+
+  it('should render a case tree from the top-most ancestor with rollups', async () => {
+    const cases: Record<number, any> = {
+      1: { ixBug: 1, sTitle: 'Epic', sStatus: 'Active', fOpen: true, ixBugParent: 0, ixBugChildren: [2, 3] },
+      2: { ixBug: 2, sTitle: 'Child A', sStatus: 'Resolved (Fixed)', fOpen: true, ixBugParent: 1, ixBugChildren: [] },
+      3: { ixBug: 3, sTitle: 'Child B', sStatus: 'Active', fOpen: true, ixBugParent: 1, ixBugChildren: '4' },
+      4: { ixBug: 4, sTitle: 'Grandchild', sStatus: 'Closed', fOpen: false, ixBugParent: 3 },
+    };
+    api.searchCases.mockImplementation(async ({ q }) => q!.split(',').map(id => cases[Number(id)]));
+
+    const result = JSON.parse(await handlers.viewCaseTree(api, { caseId: 3 }));
+
+    expect(result.rootCaseId).toBe(1);
+    expect(result.totalSubcases).toBe(3);
+    expect(result.doneSubcases).toBe(2);
+    expect(result.outline.split('\n')).toEqual([
+      '#1 [Active] Epic (2/3 subcases done)',
+      '  #2 [Resolved (Fixed)] Child A',
+      '  #3 [Active] Child B (1/1 subcases done) <==',
+      '    #4 [Closed] Grandchild',
+    ]);
+  });
+
+  it('should refuse to move a case under its own subcase', async () => {
+    api.searchCases.mockResolvedValueOnce([{ ixBug: 5, sTitle: 'Child', ixBugParent: 1 }]);
+
+    const result = JSON.parse(await handlers.setParentCase(api, { caseId: 1, parentCaseId: 5 }));
+
+    expect(result.error).toMatch(/cannot be its parent/);
+    expect(api.updateCase).not.toHaveBeenCalled();
+  });
+
+  it('should merge added tags with the existing ones', async () => {
+    api.viewCase.mockResolvedValueOnce({ ixBug: 7, sTitle: 'Case', tags: ['api', { tag: 'Beta' }] });
+    api.updateCase.mockResolvedValueOnce({ ixBug: 7, sTitle: 'Case' });
+
+    const result = JSON.parse(await handlers.addCaseTags(api, { caseId: 7, tags: ['beta', 'docs'] }));
+
+    expect(api.updateCase).toHaveBeenCalledWith({ ixBug: 7, sTags: 'api,Beta,docs' });
+    expect(result.tags).toEqual(['api', 'Beta', 'docs']);
+  });
+
+  it('should remove only the requested tags', async () => {
+    api.viewCase.mockResolvedValueOnce({ ixBug: 7, sTitle: 'Case', tags: ['api', 'beta'] });
+    api.updateCase.mockResolvedValueOnce({ ixBug: 7, sTitle: 'Case' });
+
+    await handlers.removeCaseTags(api, { caseId: 7, tags: ['API'] });
+
+    expect(api.updateCase).toHaveBeenCalledWith({ ixBug: 7, sTags: 'beta' });
+  });
+
+  it('should log time from a start and a duration', async () => {
+    api.createInterval.mockResolvedValueOnce({ ixInterval: 9, ixBug: 1234, dtStart: '', dtEnd: '' });
+
+    const result = JSON.parse(await handlers.logTime(api, { caseId: 1234, start: '2024-03-04T13:00:00-05:00', hours: 2 }));
+
+    expect(api.createInterval).toHaveBeenCalledWith(1234, '2024-03-04T18:00:00Z', '2024-03-04T20:00:00Z');
+    expect(result.hours).toBe(2);
+  });
+
+  it('should aggregate a timesheet per case, project and day', async () => {
+    api.listIntervals.mockResolvedValueOnce([
+      { ixInterval: 1, ixBug: 10, dtStart: '2024-03-04T09:00:00Z', dtEnd: '2024-03-04T11:30:00Z' },
+      { ixInterval: 2, ixBug: 11, dtStart: '2024-03-04T13:00:00Z', dtEnd: '2024-03-04T14:00:00Z' },
+      { ixInterval: 3, ixBug: 10, dtStart: '2024-03-05T09:00:00Z', dtEnd: '2024-03-05T10:00:00Z' },
+    ]);
+    api.searchCases.mockResolvedValueOnce([
+      { ixBug: 10, sTitle: 'Login bug', sProject: 'Website' },
+      { ixBug: 11, sTitle: 'Report', sProject: 'Internal' },
+    ]);
+
+    const result = JSON.parse(await handlers.getTimesheet(api, { start: '2024-03-04', end: '2024-03-10' }));
+
+    expect(result.totalHours).toBe(4.5);
+    expect(result.byCase.map((entry: any) => [entry.id, entry.hours])).toEqual([[10, 3.5], [11, 1]]);
+    expect(result.byProject).toEqual([{ project: 'Website', hours: 3.5 }, { project: 'Internal', hours: 1 }]);
+    expect(result.byDay).toEqual([{ day: '2024-03-04', hours: 3.5 }, { day: '2024-03-05', hours: 1 }]);
+  });
+
+  it('should refuse a milestone dependency that would create a cycle', async () => {
+    api.listMilestones.mockResolvedValueOnce([
+      { ixFixFor: 1, sFixFor: 'Alpha', setixFixForDependency: [] },
+      { ixFixFor: 2, sFixFor: 'Beta', setixFixForDependency: [{ ixFixFor: 1 }] },
+      { ixFixFor: 3, sFixFor: 'Release', setixFixForDependency: [{ ixFixFor: 2 }] },
+    ]);
+
+    const result = JSON.parse(await handlers.addMilestoneDependency(api, { milestoneId: 1, dependsOnId: 3 }));
+
+    expect(result.error).toMatch(/cycle/);
+    expect(result.existingPath).toEqual([3, 2, 1]);
+    expect(api.addMilestoneDependency).not.toHaveBeenCalled();
+  });
+
+  it('should order a milestone graph by dependency', async () => {
+    api.listProjects.mockResolvedValueOnce([{ ixProject: 5, sProject: 'Mobile App' }]);
+    api.listMilestones.mockResolvedValueOnce([
+      { ixFixFor: 3, sFixFor: 'Release', setixFixForDependency: [{ ixFixFor: 2 }] },
+      { ixFixFor: 2, sFixFor: 'Beta', setixFixForDependency: [{ ixFixFor: 1 }] },
+      { ixFixFor: 1, sFixFor: 'Alpha', setixFixForDependency: [] },
+    ]);
+
+    const result = JSON.parse(await handlers.getMilestoneGraph(api, { project: 'mobile app' }));
+
+    expect(api.listMilestones).toHaveBeenCalledWith(5, false);
+    expect(result.ordered.map((milestone: any) => milestone.name)).toEqual(['Alpha', 'Beta', 'Release']);
+    expect(result.cyclic).toEqual([]);
+  });
+
+  it('should diff the latest article revision against the previous one', async () => {
+    api.listRevisions.mockResolvedValueOnce([
+      { nRevision: 1, ixPerson: 2, dt: '2025-03-15T14:24:43Z', sComment: 'Initial version' },
+      { nRevision: 2, ixPerson: 3, dt: '2025-03-17T09:14:27Z', sComment: 'Added a step' },
+    ]);
+    api.listPeople.mockResolvedValueOnce([
+      { ixPerson: 2, sFullName: 'Jane Smith', sEmail: 'jane@example.com' },
+      { ixPerson: 3, sFullName: 'John Doe', sEmail: 'john@example.com' },
+    ]);
+    api.viewArticle.mockImplementation(async (ixWikiPage, nRevision) => ({
+      ixWikiPage,
+      sHeadline: 'Runbook',
+      sBody: nRevision === 1 ? '<p>Restart</p>' : '<p>Restart</p><p>Check logs</p>',
+    }));
+
+    const result = JSON.parse(await handlers.diffArticleRevisions(api, { articleId: 5 }));
+
+    expect(result.fromRevision).toBe(1);
+    expect(result.toRevision).toBe(2);
+    expect(result.changes).toEqual([
+      { revision: 2, person: 'John Doe', date: '2025-03-17T09:14:27Z', comment: 'Added a step' },
+    ]);
+    expect(result.diff).toContain('revision 2 by John Doe at 2025-03-17T09:14:27Z');
+    expect(result.diff).toContain('+Check logs');
+  });
+
+  it('should not delete a wiki template without confirmation', async () => {
+    const result = JSON.parse(await handlers.deleteTemplate(api, { templateId: 3 }));
+
+    expect(result.error).toMatch(/confirm/);
+    expect(api.deleteTemplate).not.toHaveBeenCalled();
+  });
+
+  it('should create a case from a discussion topic with a back-link', async () => {
+    api.listDiscussTopic.mockResolvedValueOnce([
+      { ixDiscussTopic: 4, ixDiscussTopicParent: 0, sHeadline: 'Export is broken', sFullName: 'Customer', dt: '2025-03-25T14:39:47Z', sPost: 'CSV export fails' },
+      { ixDiscussTopic: 5, ixDiscussTopicParent: 4, sHeadline: 'Re: Export is broken', sFullName: 'Support', dt: '2025-03-25T15:24:30Z', sPost: 'Looking into it' },
+    ]);
+    api.getDiscussTopicLink.mockReturnValue('https://test.fogbugz.com/default.asp?pg=pgDiscussTopic&ixDiscussTopic=4');
+    api.listProjects.mockResolvedValueOnce([{ ixProject: 3, sProject: 'Website' }]);
+    api.createCase.mockResolvedValueOnce({ ixBug: 42, sTitle: 'Export is broken' });
+
+    const result = JSON.parse(await handlers.createCaseFromDiscussTopic(api, { topicId: 4, project: 'Website' }));
+
+    const [params] = api.createCase.mock.calls[0];
+    expect(params.sTitle).toBe('Export is broken');
+    expect(params.ixProject).toBe(3);
+    expect(params.sEvent).toContain('https://test.fogbugz.com/default.asp?pg=pgDiscussTopic&ixDiscussTopic=4');
+    expect(params.sEvent).toContain('Support - 2025-03-25T15:24:30Z');
+    expect(result.caseId).toBe(42);
+  });
+
+  it('should report the occurrence count of a repeat crash', async () => {
+    api.submitScoutReport.mockResolvedValueOnce({ ixBug: 5184, sTitle: 'Crash' });
+    api.listScoutCase.mockResolvedValueOnce({ ixBug: 5184, sScoutDescription: 'Error: boom', dtLastOccurrence: '2025-03-25T19:54:58Z' });
+    api.searchCases.mockResolvedValueOnce([{ ixBug: 5184, sTitle: 'Crash', c: 6 }]);
+
+    const result = JSON.parse(await handlers.submitScoutReport(api, { stackTrace: 'Error: boom\n    at run (/ci/app.js:1:1)' }));
+
+    const [params] = api.submitScoutReport.mock.calls[0];
+    expect(params.sScoutDescription).toBe('Error: boom | at run (app.js)');
+    expect(result.caseId).toBe(5184);
+    expect(result.occurrences).toBe(7);
+    expect(api.updateCase).not.toHaveBeenCalled();
+  });
+
+  it('should skip git checkins that are already linked', async () => {
+    jest.spyOn(git, 'readGitLog').mockResolvedValueOnce([
+      { hash: 'bbb', parents: ['aaa'], author: 'Jane', date: '', message: 'Fix it. Case 12', files: ['a.ts', 'b.ts'] },
+    ]);
+    api.listCheckins.mockResolvedValueOnce([
+      { ixCVS: 1, ixBug: 12, sFile: 'a.ts', sPrev: 'aaa', sNew: 'bbb' },
+    ]);
+
+    const result = JSON.parse(await handlers.importGitLog(api, { repositoryPath: '/repo', repositoryId: 2 }));
+
+    expect(api.createCheckin).toHaveBeenCalledTimes(1);
+    expect(api.createCheckin).toHaveBeenCalledWith({ ixBug: 12, sFile: 'b.ts', sPrev: 'aaa', sNew: 'bbb', ixRepository: 2 });
+    expect(result.skippedExistingCheckins).toBe(1);
+  });
+
+  it('should generate release notes grouped by category with title fallback', async () => {
+    api.listMilestones.mockResolvedValueOnce([{ ixFixFor: 42, sFixFor: 'Version 2.0', sProject: 'Website' }]);
+    api.searchCases.mockResolvedValueOnce([
+      { ixBug: 1235, sTitle: 'Slow search', sReleaseNotes: 'Search is 50% faster', sCategory: 'Bug', ixFixFor: 42 },
+      { ixBug: 1234, sTitle: 'Export reports to CSV', sReleaseNotes: '', sCategory: 'Feature', ixFixFor: 42 },
+    ]);
+
+    const result = JSON.parse(await handlers.generateReleaseNotes(api, { milestone: 'version 2.0' }));
+
+    expect(api.searchCases.mock.calls[0][0].q).toBe('fixfor:"Version 2.0" project:"Website" (status:resolved OR status:closed)');
+    expect(result.missingReleaseNotes).toEqual([1234]);
+    expect(result.releaseNotes).toBe(
+      '# Release Notes: Version 2.0\n\n## Bug\n\n- Search is 50% faster (#1235)\n\n## Feature\n\n- Export reports to CSV (#1234)'
+    );
+    expect(api.updateCase).not.toHaveBeenCalled();
+  });
+
+  it('should keep release notes for a global milestone to that milestone and report truncation', async () => {
+    api.listMilestones.mockResolvedValueOnce([
+      { ixFixFor: 7, sFixFor: 'Spring Release' },
+      { ixFixFor: 8, sFixFor: 'Spring Release', sProject: 'Mobile' },
+    ]);
+    api.searchCases.mockResolvedValueOnce([
+      { ixBug: 1, sTitle: 'Global fix', sReleaseNotes: 'Faster logins', sCategory: 'Bug', ixFixFor: 7 },
+      { ixBug: 2, sTitle: 'Mobile fix', sReleaseNotes: 'Smoother scrolling', sCategory: 'Bug', ixFixFor: 8 },
+    ]);
+
+    const result = JSON.parse(await handlers.generateReleaseNotes(api, { milestone: 7 }));
+
+    expect(api.searchCases.mock.calls[0][0].q).toBe('fixfor:"Spring Release" (status:resolved OR status:closed)');
+    expect(result.caseCount).toBe(1);
+    expect(result.releaseNotes).toBe('# Release Notes: Spring Release\n\n## Bug\n\n- Faster logins (#1)');
+    expect(result.truncated).toBe(false);
+
+    api.listMilestones.mockResolvedValueOnce([{ ixFixFor: 7, sFixFor: 'Spring Release' }]);
+    api.searchCases.mockResolvedValueOnce(
+      Array.from({ length: 1000 }, (_, index) => ({ ixBug: index + 1, sTitle: `Case ${index + 1}`, ixFixFor: 7 }))
+    );
+
+    const truncated = JSON.parse(await handlers.generateReleaseNotes(api, { milestone: 7 }));
+
+    expect(truncated.truncated).toBe(true);
+    expect(truncated.message).toContain('The search stopped at 1000 cases, so some cases are missing.');
+  });
+
+  it('should only write release notes for an exactly named milestone', async () => {
+    api.listMilestones.mockResolvedValueOnce([{ ixFixFor: 42, sFixFor: 'Version 2.0', sProject: 'Website' }]);
+
+    const result = JSON.parse(await handlers.generateReleaseNotes(api, { milestone: 'Version 2', writeMissing: true }));
+
+    expect(result.error).toBe('No milestone named exactly "Version 2"; did you mean Version 2.0 (Website)?');
+    expect(api.searchCases).not.toHaveBeenCalled();
+    expect(api.updateCase).not.toHaveBeenCalled();
+  });
+
+  it('should refuse project time allocations above 100%', async () => {
+    api.listProjects.mockResolvedValueOnce([
+      { ixProject: 1, sProject: 'Website' },
+      { ixProject: 2, sProject: 'Mobile' },
+    ]);
+    api.listProjectPercentTime.mockResolvedValueOnce({
+      projectpercenttimes: [
+        { ixProjectPercentTime: 7, ixPerson: 3, ixProject: 1, nPercent: 60 },
+        { ixProjectPercentTime: 8, ixPerson: 3, ixProject: 2, nPercent: 30 },
+      ],
+      nPercentTimeAllOtherProjects: 10,
+    });
+
+    const rejected = JSON.parse(await handlers.setProjectTime(api, { project: 'Mobile', percent: 50 }));
+    expect(rejected.error).toContain('leaving 40%');
+    expect(api.editProjectPercentTime).not.toHaveBeenCalled();
+
+    api.listProjects.mockResolvedValueOnce([{ ixProject: 2, sProject: 'Mobile' }]);
+    api.listProjectPercentTime.mockResolvedValueOnce({
+      projectpercenttimes: [
+        { ixProjectPercentTime: 7, ixPerson: 3, ixProject: 1, nPercent: 60 },
+        { ixProjectPercentTime: 8, ixPerson: 3, ixProject: 2, nPercent: 30 },
+      ],
+      nPercentTimeAllOtherProjects: 10,
+    });
+
+    const result = JSON.parse(await handlers.setProjectTime(api, { project: 'Mobile', percent: 40 }));
+    expect(api.editProjectPercentTime).toHaveBeenCalledWith(8, 40);
+    expect(result.action).toBe('updated');
+    expect(result.totalPercent).toBe(100);
+  });
+
+  it('should run a filter by name and restore the current filter', async () => {
+    api.listFilters.mockResolvedValueOnce([
+      { type: 'builtin', sFilter: 'ez349', name: 'My Cases' },
+      { type: 'shared', sFilter: '98', name: 'Sprint Triage' },
+      { type: 'saved', sFilter: '304', name: 'Old bugs', status: 'current' },
+    ]);
+    api.searchCases.mockResolvedValueOnce([{ ixBug: 7, sTitle: 'Crash on save' }]);
+
+    const result = JSON.parse(await handlers.runSavedFilter(api, { filter: 'sprint triage' }));
+
+    expect(api.setCurrentFilter.mock.calls).toEqual([['98'], ['304']]);
+    expect(api.searchCases.mock.calls[0][0].q).toBeUndefined();
+    expect(result.count).toBe(1);
+    expect(result.restoredFilter).toBe('Old bugs');
+  });
+
+  it('should not change the current filter when a built-in one is current unless allowed', async () => {
+    const filters: FogBugzFilter[] = [
+      { type: 'builtin', sFilter: 'ez349', name: 'My Cases' },
+      { type: 'shared', sFilter: '98', name: 'Sprint Triage' },
+    ];
+    api.listFilters.mockResolvedValueOnce(filters);
+
+    const refused = JSON.parse(await handlers.runSavedFilter(api, { filter: 'Sprint Triage' }));
+    expect(refused.error).toContain('Set changeCurrentFilter to run it anyway');
+    expect(api.setCurrentFilter).not.toHaveBeenCalled();
+
+    api.listFilters.mockResolvedValueOnce(filters);
+    api.searchCases.mockResolvedValueOnce([{ ixBug: 7, sTitle: 'Crash on save' }]);
+    const result = JSON.parse(await handlers.runSavedFilter(api, { filter: 'Sprint Triage', changeCurrentFilter: true }));
+    expect(api.setCurrentFilter.mock.calls).toEqual([['98']]);
+    expect(result.warning).toBe('"Sprint Triage" is now your current filter in FogBugz.');
+  });
+
+  it('should refuse to change user types unless admin changes are enabled', async () => {
+    api.viewPerson.mockResolvedValueOnce({ ixPerson: 5, sFullName: 'Jane Doe', sEmail: 'jane@example.com' });
+    const refused = JSON.parse(await handlers.editPerson(api, { person: 5, userType: 'administrator' }));
+    expect(refused.error).toContain('FOGBUGZ_ALLOW_ADMIN_CHANGES');
+    expect(api.editPerson).not.toHaveBeenCalled();
+
+    api.viewPerson.mockResolvedValueOnce({ ixPerson: 5, sFullName: 'Jane Doe', sEmail: 'jane@example.com' });
+    api.editPerson.mockResolvedValueOnce({ ixPerson: 5, sFullName: 'Jane Doe', sEmail: 'jane@example.com', nType: 1 });
+    api.canMakeAdminChanges.mockReturnValueOnce(true).mockReturnValueOnce(true);
+    const result = JSON.parse(await handlers.editPerson(api, { person: 5, userType: 'administrator', active: true }));
+    expect(api.editPerson).toHaveBeenCalledWith({ ixPerson: 5, nType: 1, fDeleted: false });
+    expect(result.person.type).toBe('administrator');
+  });
+
+  it('should refuse to create, deactivate or reactivate users unless admin changes are enabled', async () => {
+    const created = JSON.parse(await handlers.createPerson(api, { email: 'sam@example.com', fullName: 'Sam Lee' }));
+    expect(created.error).toBe('Creating users is disabled; set FOGBUGZ_ALLOW_ADMIN_CHANGES=true to allow it');
+    expect(api.createPerson).not.toHaveBeenCalled();
+
+    api.viewPerson.mockResolvedValueOnce({ ixPerson: 5, sFullName: 'Jane Doe', sEmail: 'jane@example.com' });
+    const deactivated = JSON.parse(await handlers.editPerson(api, { person: 5, active: false }));
+    expect(deactivated.error).toBe('Deactivating and reactivating users is disabled; set FOGBUGZ_ALLOW_ADMIN_CHANGES=true to allow it');
+    expect(api.editPerson).not.toHaveBeenCalled();
+  });
+
+  it('should create a project with its areas, resolving contacts by name or email', async () => {
+    api.listPeople.mockResolvedValue([
+      { ixPerson: 2, sFullName: 'Akari Lara', sEmail: 'akari@example.com' },
+      { ixPerson: 3, sFullName: 'Sam Ortiz', sEmail: 'sam@example.com' },
+    ]);
+    api.createProject.mockResolvedValueOnce({ ixProject: 9, sProject: 'Mobile' });
+    api.listAreas.mockResolvedValueOnce([{ ixArea: 30, sArea: 'Misc', ixProject: 9 }]);
+    api.createArea.mockImplementation(async params => ({ ixArea: 31, sArea: params.sArea, ixProject: params.ixProject }));
+
+    const result = JSON.parse(await handlers.createProjectWithAreas(api, {
+      name: 'Mobile',
+      primaryContact: 'akari lara',
+      areas: ['Misc', { name: 'iOS', owner: 'sam@example.com' }],
+    }));
+
+    expect(api.createProject).toHaveBeenCalledWith({ sProject: 'Mobile', ixPersonPrimaryContact: 2 });
+    expect(api.createArea).toHaveBeenCalledTimes(1);
+    expect(api.createArea).toHaveBeenCalledWith({ ixProject: 9, sArea: 'iOS', ixPersonPrimaryContact: 3 });
+    expect(result.existingAreas).toEqual(['Misc']);
+    expect(result.createdAreas).toEqual([{ id: 31, name: 'iOS' }]);
+
+    api.listPeople.mockReset();
+    api.createArea.mockReset();
+  });
+
+  it('should expand a snippet into a reply', async () => {
+    api.listSnippets.mockResolvedValueOnce([
+      { ixSnippet: 4, sName: 'thanks', s: 'Hi {sender}, we are looking into "{subject}" (case {case}).' },
+    ]);
+    api.viewCase.mockResolvedValueOnce({ ixBug: 77, sTitle: 'Export fails', sCustomerEmail: 'pat@customer.com' });
+    api.replyToCase.mockResolvedValueOnce({ ixBug: 77, sTitle: 'Export fails' });
+
+    const result = JSON.parse(await handlers.replyToCase(api, { caseId: 77, to: 'pat@customer.com', snippet: 'Thanks' }));
+
+    const [params] = api.replyToCase.mock.calls[0];
+    expect(params.sEvent).toBe('Hi pat@customer.com, we are looking into "Export fails" (case 77).');
+    expect(api.getCurrentUser).not.toHaveBeenCalled();
+    expect(result.unresolvedPlaceholders).toEqual([]);
+  });
+
+  it('should not email a customer a snippet with unfilled placeholders', async () => {
+    api.listSnippets.mockResolvedValueOnce([{ ixSnippet: 5, sName: 'status', s: 'Track it at {ticketurl}.' }]);
+    api.viewCase.mockResolvedValueOnce({ ixBug: 78, sTitle: 'Export fails' });
+
+    const result = JSON.parse(await handlers.emailCase(api, { caseId: 78, to: 'pat@customer.com', snippet: 'status' }));
+
+    expect(result.error).toBe(
+      'Snippet placeholders could not be filled in: {ticketurl}. Edit the message, or set allowUnresolvedPlaceholders to send it anyway'
+    );
+    expect(api.emailCase).not.toHaveBeenCalled();
+  });
+
+  it('should show a mailbox and say its routing settings were not returned', async () => {
+    api.listMailboxes.mockResolvedValueOnce([
+      { ixMailbox: 1, sEmail: '"Support" <support@example.com>' },
+    ]);
+    api.viewMailbox.mockResolvedValueOnce({
+      ixMailbox: 1,
+      sEmail: '"Support" <support@example.com>',
+      sEmailUser: '"Jane Smith" <support@example.com>',
+      sTemplate: '-- \nSincerely,\nSupport Team',
+    });
+
+    const result = JSON.parse(await handlers.viewMailbox(api, { mailbox: 'Support@example.com' }));
+
+    expect(api.viewMailbox).toHaveBeenCalledWith(1);
+    expect(result.mailbox).toEqual({
+      id: 1,
+      name: 'Support',
+      address: 'support@example.com',
+      replyFrom: '"Jane Smith" <support@example.com>',
+      signature: '-- \nSincerely,\nSupport Team',
+      routingAndAutoReply: 'FogBugz didn\'t return routing or auto-reply settings; check the mailbox settings in FogBugz itself',
+    });
+    expect(result.message).toBe(
+      'Mailbox support@example.com (ID: 1). FogBugz didn\'t return routing or auto-reply settings; check the mailbox settings in FogBugz itself.'
+    );
+  });
+
+  it('should file a new case under a category given by name', async () => {
+    api.listCategories.mockResolvedValueOnce([
+      { ixCategory: 1, sCategory: 'Bug', sPlural: 'Bugs' },
+      { ixCategory: 2, sCategory: 'Feature', sPlural: 'Features' },
+    ]);
+    api.createCase.mockResolvedValueOnce({ ixBug: 321, sTitle: 'Dark mode' });
+
+    await handlers.createCase(api, { title: 'Dark mode', category: 'features' });
+    expect(api.createCase.mock.calls[0][0]).toEqual({ sTitle: 'Dark mode', ixCategory: 2 });
+
+    api.listCategories.mockResolvedValueOnce([{ ixCategory: 1, sCategory: 'Bug' }]);
+    const result = JSON.parse(await handlers.updateCase(api, { caseId: 321, category: 'Chore' }));
+    expect(result.error).toBe('No category found matching "Chore"; available categories: Bug');
+    expect(api.updateCase).not.toHaveBeenCalled();
+  });
+
+  it('should not update a case when custom fields cannot be looked up', async () => {
+    api.listCustomFields.mockRejectedValueOnce(new CustomFieldLookupError('FogBugz API Error: Unknown command'));
+
+    const result = JSON.parse(await handlers.updateCase(api, { caseId: 55, customFields: { Seats: 3 } }));
+
+    expect(result.error).toBe('Custom field lookup is unavailable on this FogBugz instance (FogBugz API Error: Unknown command)');
+    expect(api.updateCase).not.toHaveBeenCalled();
+  });
+
+  it('should pass plugin columns through unchecked when custom fields cannot be looked up', async () => {
+    const column = 'plugin_customfields_at_fogcreek_com_seatsx12';
+    api.listCustomFields.mockRejectedValueOnce(new CustomFieldLookupError('FogBugz API Error: Unknown command'));
+
+    await handlers.updateCase(api, { caseId: 55, customFields: { [column]: 3 } });
+    expect(api.updateCase.mock.calls[0][0]).toEqual({ ixBug: 55, [column]: 3 });
+
+    api.listCustomFields.mockRejectedValueOnce(new CustomFieldLookupError('FogBugz API Error: Unknown command'));
+    api.searchCases.mockResolvedValueOnce([{ ixBug: 55, sTitle: 'Slow sync', [column]: '3' }]);
+    const result = JSON.parse(await handlers.searchCases(api, { query: 'sync', fields: ['sTitle', column] }));
+    expect(api.searchCases).toHaveBeenCalledWith({ q: 'sync', cols: ['ixBug', 'sTitle', column], max: 20 });
+    expect(result.cases[0][column]).toBe('3');
+  });
+
+  it('should set estimates and typed custom fields on a case', async () => {
+    api.listCustomFields.mockResolvedValueOnce([
+      { sFieldName: 'plugin_customfields_at_fogcreek_com_customerxtierk91', sDisplayName: 'Customer Tier', sType: 'choice', rgsChoices: ['Gold', 'Silver'] },
+    ]);
+    api.viewCase.mockResolvedValueOnce({ ixBug: 55, sTitle: 'Slow sync', hrsElapsed: 5, hrsElapsedExtra: 1 });
+    api.updateCase.mockResolvedValueOnce({ ixBug: 55, sTitle: 'Slow sync' });
+
+    await handlers.updateCase(api, {
+      caseId: 55,
+      estimateHours: 8,
+      storyPoints: 3,
+      dueDate: '2025-07-01',
+      elapsedHours: 6,
+      customFields: { 'customer tier': 'gold' },
+    });
+
+    expect(api.viewCase).toHaveBeenCalledWith(55, false, ['hrsElapsed', 'hrsElapsedExtra']);
+    expect(api.updateCase.mock.calls[0][0]).toEqual({
+      ixBug: 55,
+      hrsCurrEst: 8,
+      dblStoryPts: 3,
+      dtDue: '2025-07-01T00:00:00Z',
+      hrsElapsedExtra: 2,
+      plugin_customfields_at_fogcreek_com_customerxtierk91: 'Gold',
+    });
+  });
+
+  it('should file a case by IDs resolved within the chosen project', async () => {
+    api.listProjects.mockResolvedValueOnce([
+      { ixProject: 1, sProject: 'Website' },
+      { ixProject: 2, sProject: 'Mobile App' },
+    ]);
+    api.listAreas.mockResolvedValueOnce([{ ixArea: 21, sArea: 'UI', ixProject: 2, sProject: 'Mobile App' }]);
+    api.listMilestones.mockResolvedValueOnce([
+      { ixFixFor: 5, sFixFor: '2.0', ixProject: 1, sProject: 'Website' },
+      { ixFixFor: 6, sFixFor: '2.0', ixProject: 2, sProject: 'Mobile App' },
+    ]);
+    api.listPeople.mockResolvedValueOnce([
+      { ixPerson: 3, sFullName: 'Dana Reyes', sEmail: 'dana@example.com' },
+    ]);
+    api.createCase.mockResolvedValueOnce({ ixBug: 88, sTitle: 'Crash on rotate' });
+
+    await handlers.createCase(api, { title: 'Crash on rotate', project: 'mobile app', area: 'ui', milestone: '2.0', assignee: 'dana@example.com' });
+
+    expect(api.createCase.mock.calls[0][0]).toEqual({
+      sTitle: 'Crash on rotate',
+      ixProject: 2,
+      ixArea: 21,
+      ixFixFor: 6,
+      ixPersonAssignedTo: 3,
+    });
+  });
+
+  it('should list the candidates when an assignee is ambiguous', async () => {
+    api.listPeople.mockResolvedValueOnce([
+      { ixPerson: 3, sFullName: 'Sam Carter', sEmail: 'sam.carter@example.com' },
+      { ixPerson: 4, sFullName: 'Sam Okafor', sEmail: 'sam.okafor@example.com' },
+    ]);
+
+    const result = JSON.parse(await handlers.assignCase(api, { caseId: 12, assignee: 'sam' }));
+
+    expect(result.error).toBe(
+      'No person named exactly "sam"; did you mean Sam Carter <sam.carter@example.com>, Sam Okafor <sam.okafor@example.com>?'
+    );
+    expect(result.candidates).toEqual([
+      { id: 3, name: 'Sam Carter <sam.carter@example.com>' },
+      { id: 4, name: 'Sam Okafor <sam.okafor@example.com>' },
+    ]);
+    expect(api.assignCase).not.toHaveBeenCalled();
+  });
+
+  it('should not move a case to a project that only matches a typo', async () => {
+    api.listProjects.mockResolvedValueOnce([{ ixProject: 1, sProject: 'Website' }]);
+
+    const result = JSON.parse(await handlers.updateCase(api, { caseId: 12, project: 'Websit' }));
+
+    expect(result.error).toBe('No project named exactly "Websit"; did you mean Website?');
+    expect(result.candidates).toEqual([{ id: 1, name: 'Website' }]);
+    expect(api.updateCase).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,37 @@
+import { isApiVersionSupported, parseApiXml, toJsonEndpoint } from '../src/api/discovery';
+import { getProbeCommands, getSupportedTools } from '../src/commands/tools';
+
+describe('API discovery', () => {
+  it('should read the version and URL from api.xml', () => {
+    const xml = '<?xml version="1.0" encoding="UTF-8"?>\n<response>\n  <version>8</version>\n  <minversion>1</minversion>\n  <url><![CDATA[api.asp?]]></url>\n</response>';
+
+    expect(parseApiXml(xml)).toEqual({ version: 8, minVersion: 1, url: 'api.asp?' });
+    expect(parseApiXml('<html>Not found</html>')).toBeUndefined();
+  });
+
+  it('should place the JSON API next to the XML API', () => {
+    expect(toJsonEndpoint('https://example.fogbugz.com', 'api.asp?'))
+      .toBe('https://example.fogbugz.com/f/api/0/jsonapi');
+    expect(toJsonEndpoint('https://intranet.example.com/fogbugz', 'api.asp?'))
+      .toBe('https://intranet.example.com/fogbugz/f/api/0/jsonapi');
+    expect(toJsonEndpoint('https://intranet.example.com', '/fogbugz/api.asp?'))
+      .toBe('https://intranet.example.com/fogbugz/f/api/0/jsonapi');
+  });
+
+  it('should check the API version the instance still accepts', () => {
+    const info = { endpoint: 'https://intranet.example.com/f/api/0/jsonapi', version: 2, minVersion: 1 };
+
+    expect(isApiVersionSupported(info)).toBe(true);
+    expect(isApiVersionSupported({ ...info, minVersion: 9 })).toBe(false);
+    expect(isApiVersionSupported({ endpoint: info.endpoint })).toBe(true);
+  });
+
+  it('should only turn off tools whose probed commands were rejected', () => {
+    expect(getProbeCommands()).toEqual(['listTags', 'listWorkingSchedule', 'listProjectPercentTime']);
+
+    const { tools, disabled } = getSupportedTools(cmd => cmd !== 'listTags');
+    expect(disabled).toEqual(['fogbugz_list_tags']);
+    expect(tools.some(tool => tool.name === 'fogbugz_add_case_tags')).toBe(true);
+    expect(tools.some(tool => tool.name === 'fogbugz_view_working_schedule')).toBe(true);
+  });
+});
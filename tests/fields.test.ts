@@ -0,0 +1,37 @@
+import { findCustomField, isBuiltInColumn, isPluginColumn, pickCaseFields, toCustomFieldValue } from '../src/commands/fields';
+
+describe('Case fields', () => {
+  const fields = [
+    { sFieldName: 'plugin_customfields_at_fogcreek_com_customerxtierk91', sDisplayName: 'Customer Tier', sType: 'choice', rgsChoices: ['Gold', 'Silver'] },
+    { sFieldName: 'plugin_customfields_at_fogcreek_com_seatsv12', sDisplayName: 'Seats', sType: 'integer' },
+    { sFieldName: 'plugin_customfields_at_fogcreek_com_renewalt33', sDisplayName: 'Renewal', sType: 'date' },
+  ];
+
+  it('should tell built-in columns from custom field names', () => {
+    expect(isBuiltInColumn('hrsCurrEst')).toBe(true);
+    expect(isBuiltInColumn('dblStoryPts')).toBe(true);
+    expect(isBuiltInColumn('tags')).toBe(true);
+    expect(isBuiltInColumn('Customer Tier')).toBe(false);
+    expect(isPluginColumn('plugin_customfields_at_fogcreek_com_customerxtierk91')).toBe(true);
+    expect(isPluginColumn('Customer Tier')).toBe(false);
+    expect(findCustomField(fields, 'customer tier')?.sFieldName).toBe('plugin_customfields_at_fogcreek_com_customerxtierk91');
+  });
+
+  it('should validate custom field values by type', () => {
+    expect(toCustomFieldValue(fields[0], 'gold')).toBe('Gold');
+    expect(() => toCustomFieldValue(fields[0], 'Bronze')).toThrow('Customer Tier must be one of "Gold", "Silver", got "Bronze"');
+    expect(toCustomFieldValue(fields[1], '25')).toBe(25);
+    expect(() => toCustomFieldValue(fields[1], 2.5)).toThrow('Seats must be a whole number');
+    expect(toCustomFieldValue(fields[2], '2025-06-01T12:00:00.000Z')).toBe('2025-06-01T12:00:00Z');
+    expect(() => toCustomFieldValue(fields[2], 'next week')).toThrow('Invalid date for Renewal');
+  });
+
+  it('should pick requested columns under the names asked for', () => {
+    const bugCase = { ixBug: 9, hrsCurrEst: 4, plugin_customfields_at_fogcreek_com_seatsv12: 30 };
+    expect(pickCaseFields(bugCase, [
+      { name: 'hrsCurrEst', column: 'hrsCurrEst' },
+      { name: 'Seats', column: 'plugin_customfields_at_fogcreek_com_seatsv12' },
+      { name: 'dtDue', column: 'dtDue' },
+    ])).toEqual({ id: 9, hrsCurrEst: 4, Seats: 30, dtDue: null });
+  });
+});
@@ -0,0 +1,50 @@
+import { findCaseReferences, parseGitLog, readGitLog } from '../src/commands/git';
+
+describe('git log import', () => {
+  it('should find case references in commit messages', () => {
+    expect(findCaseReferences('Fix login redirect. Case 1234')).toEqual([1234]);
+    expect(findCaseReferences('Fixes Case 1234')).toEqual([1234]);
+    expect(findCaseReferences('BugzID 1234: tidy up the importer')).toEqual([1234]);
+    expect(findCaseReferences('Case #1234, see also case 99\nand Bug 7.')).toEqual([1234, 99, 7]);
+    expect(findCaseReferences('BugzID: 55\n\nAlso touches case: 1234 and Bug #7')).toEqual([55, 1234, 7]);
+    expect(findCaseReferences('BugzID:55, bugzid #55')).toEqual([55]);
+    expect(findCaseReferences('Bump version to 1.2.3 (#456)')).toEqual([]);
+  });
+
+  it('should not read plain English as case references', () => {
+    expect(findCaseReferences('Handle the case 2 items are equal')).toEqual([]);
+    expect(findCaseReferences('Fix bug 3 in parser')).toEqual([]);
+    expect(findCaseReferences('Worst case 10 retries, see bugzid 4')).toEqual([4]);
+  });
+
+  it('should refuse a branch that git would read as an option', async () => {
+    await expect(readGitLog('.', { branch: '--output=/tmp/overwritten' }))
+      .rejects.toThrow('Invalid branch "--output=/tmp/overwritten": branch names can\'t start with "-"');
+  });
+
+  it('should parse commits with their files', () => {
+    const output = [
+      '\x1eabc123\x1fdef456\x1fJane Smith\x1f2024-03-05T10:00:00+00:00\x1fFix crash\n\nCase 12\n\x1f\n\nsrc/a.ts\nsrc/b.ts\n',
+      '\x1edef456\x1f\x1fJohn Doe\x1f2024-03-04T09:00:00+00:00\x1fInitial commit\n\x1f\n\nREADME.md\n',
+    ].join('');
+
+    expect(parseGitLog(output)).toEqual([
+      {
+        hash: 'abc123',
+        parents: ['def456'],
+        author: 'Jane Smith',
+        date: '2024-03-05T10:00:00+00:00',
+        message: 'Fix crash\n\nCase 12',
+        files: ['src/a.ts', 'src/b.ts'],
+      },
+      {
+        hash: 'def456',
+        parents: [],
+        author: 'John Doe',
+        date: '2024-03-04T09:00:00+00:00',
+        message: 'Initial commit',
+        files: ['README.md'],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,21 @@
+import { htmlToMarkdown, markdownToHtml } from '../src/commands/markdown';
+
+describe('wiki markdown conversion', () => {
+  it('should convert article HTML to Markdown', () => {
+    const html = '<h1>Runbook</h1><p>Restart the <strong>worker</strong>:</p><ul><li>Stop it</li><li>Start it</li></ul>';
+
+    expect(htmlToMarkdown(html)).toBe('# Runbook\n\nRestart the **worker**:\n\n-   Stop it\n-   Start it');
+  });
+
+  it('should convert Markdown back to HTML', () => {
+    const html = markdownToHtml('# Runbook\n\nSee [docs](https://example.com).');
+
+    expect(html).toBe('<h1>Runbook</h1>\n<p>See <a href="https://example.com">docs</a>.</p>');
+  });
+
+  it('should keep tables as HTML through a round trip', () => {
+    const table = '<table><tbody><tr><td>a</td></tr></tbody></table>';
+
+    expect(markdownToHtml(htmlToMarkdown(table))).toContain(table);
+  });
+});
@@ -0,0 +1,17 @@
+import { renderReleaseNotes } from '../src/commands/release-notes';
+
+describe('release notes rendering', () => {
+  const groups = [{ name: 'Bug', entries: [{ caseId: 7, note: 'Fixed <script> injection & more' }] }];
+
+  it('should escape notes when rendering HTML', () => {
+    expect(renderReleaseNotes('Release 1.0', groups, 'html')).toBe(
+      '<h1>Release 1.0</h1>\n<h2>Bug</h2>\n<ul>\n  <li>Fixed &lt;script&gt; injection &amp; more (#7)</li>\n</ul>'
+    );
+  });
+
+  it('should underline headings when rendering plain text', () => {
+    expect(renderReleaseNotes('Release 1.0', groups, 'text')).toBe(
+      'Release 1.0\n===========\n\nBug\n---\n* Fixed <script> injection & more (#7)'
+    );
+  });
+});
@@ -0,0 +1,52 @@
+import { findMatches, levenshtein, resolveOne, ResolveError } from '../src/commands/resolver';
+
+describe('Metadata resolver', () => {
+  const projects = [
+    { id: 1, names: ['Website'], label: 'Website' },
+    { id: 2, names: ['Mobile App'], label: 'Mobile App' },
+    { id: 3, names: ['Mobile Backend'], label: 'Mobile Backend' },
+    { id: 12, names: ['Inbox'], label: 'Inbox' },
+  ].map(project => ({ ...project, item: project }));
+
+  it('should prefer IDs and exact names over looser matches', () => {
+    expect(resolveOne(projects, 12, 'project').id).toBe(12);
+    expect(resolveOne(projects, 'website', 'project').id).toBe(1);
+    expect(resolveOne(projects, 'app', 'project', { fuzzy: true }).id).toBe(2);
+    expect(resolveOne(projects, 'Websit', 'project', { fuzzy: true }).id).toBe(1);
+    expect(resolveOne(projects, 'Inbx', 'project', { fuzzy: true }).id).toBe(12);
+  });
+
+  it('should only offer loose matches as candidates unless fuzzy matching is asked for', () => {
+    let error: unknown;
+    try {
+      resolveOne(projects, 'Websit', 'project');
+    } catch (caught) {
+      error = caught;
+    }
+    expect((error as ResolveError).message).toBe('No project named exactly "Websit"; did you mean Website?');
+    expect((error as ResolveError).candidates).toEqual([{ id: 1, name: 'Website' }]);
+  });
+
+  it('should report every candidate when a name is ambiguous', () => {
+    expect(findMatches(projects, 'mobile').map(match => match.id)).toEqual([2, 3]);
+
+    let error: unknown;
+    try {
+      resolveOne(projects, 'mobile', 'project', { fuzzy: true });
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(ResolveError);
+    expect((error as ResolveError).message).toBe('"mobile" matches 2 projects: Mobile App, Mobile Backend');
+    expect((error as ResolveError).candidates).toEqual([
+      { id: 2, name: 'Mobile App' },
+      { id: 3, name: 'Mobile Backend' },
+    ]);
+  });
+
+  it('should suggest the closest names when nothing matches', () => {
+    expect(levenshtein('kitten', 'sitting')).toBe(3);
+    expect(() => resolveOne(projects, 'Payments', 'project'))
+      .toThrow('No project found matching "Payments"; closest: ');
+  });
+});
@@ -0,0 +1,37 @@
+import { buildScoutDescription, normalizeStackLine, MAX_SCOUT_DESCRIPTION_LENGTH } from '../src/commands/scout';
+
+describe('BugzScout crash signatures', () => {
+  it('should strip addresses, paths and line numbers from stack lines', () => {
+    expect(normalizeStackLine('    at processRecord (/home/ci/build-1234/src/processor.ts:217:15)'))
+      .toBe('at processRecord (processor.ts)');
+    expect(normalizeStackLine('  File "C:\\work\\app\\main.py", line 42, in run'))
+      .toBe('File "main.py", line ?, in run');
+    expect(normalizeStackLine('Segfault at 0x7ffee4b0c8a0 reading record 981'))
+      .toBe('Segfault at 0x? reading record N');
+  });
+
+  it('should give repeat crashes from different runs the same description', () => {
+    const first = [
+      'TypeError: Cannot read properties of undefined (reading \'id\')',
+      '    at getUser (/runner/_work/app/src/users.ts:12:7)',
+      '    at handler (/runner/_work/app/src/routes.ts:88:3)',
+      '    at next (/runner/_work/app/node_modules/router/index.js:280:10)',
+      '    at Layer.handle (/runner/_work/app/node_modules/router/layer.js:95:5)',
+    ].join('\n');
+    const second = first
+      .replace(/_work\/app/g, 'tmp/checkout-99')
+      .replace(':12:7', ':14:9');
+
+    expect(buildScoutDescription(first)).toBe(buildScoutDescription(second));
+    expect(buildScoutDescription(first)).toBe(
+      'TypeError: Cannot read properties of undefined (reading \'id\') | at getUser (users.ts) | at handler (routes.ts) | at next (index.js)'
+    );
+  });
+
+  it('should keep the version and stay within the FogBugz limit', () => {
+    const description = buildScoutDescription(`Error: ${'x'.repeat(400)}`, '3.1.2');
+
+    expect(description.length).toBe(MAX_SCOUT_DESCRIPTION_LENGTH);
+    expect(description.endsWith(' - version 3.1.2')).toBe(true);
+  });
+});
@@ -0,0 +1,29 @@
+import { expandSnippet, needsUserDetails } from '../src/commands/snippets';
+
+describe('Snippet expansion', () => {
+  it('should fill in placeholders from the case', () => {
+    const result = expandSnippet(
+      'Hi {sender},\n\nThanks for reporting "{SUBJECT}" (case {case}). Track it at {ticketurl}.',
+      {
+        caseId: 1234,
+        title: 'Export fails',
+        customerEmail: 'pat@customer.com',
+        ticketUrl: 'https://example.fogbugz.com/default.asp?pg=pgPublicView&sTicket=1234_abc',
+      }
+    );
+
+    expect(result.text).toBe(
+      'Hi pat@customer.com,\n\nThanks for reporting "Export fails" (case 1234). ' +
+      'Track it at https://example.fogbugz.com/default.asp?pg=pgPublicView&sTicket=1234_abc.'
+    );
+    expect(result.unresolved).toEqual([]);
+  });
+
+  it('should leave unknown or empty placeholders in place and report them', () => {
+    const result = expandSnippet('Dear {sender}, see {kb_link}. {username}', { caseId: 7 });
+
+    expect(result.text).toBe('Dear {sender}, see {kb_link}. {username}');
+    expect(result.unresolved).toEqual(['{sender}', '{kb_link}', '{username}']);
+    expect(needsUserDetails(result.text)).toBe(true);
+  });
+});